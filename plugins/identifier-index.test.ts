@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import {
+  IdentifierRecord,
+  parseIdentifierIndex,
+  serializeIdentifierIndex,
+} from "../src/lib/identifier-records";
+import { buildIdentifierIndex, toIdentifierMapping } from "./identifier-index";
+
+const HEADER = [
+  "symbol",
+  "alias_symbol",
+  "prev_symbol",
+  "ensembl_gene_id",
+  "entrez_id",
+  "uniprot_ids",
+].join("\t");
+
+const TP53 = ["TP53", "P53|LFS1", "", "ENSG00000141510", "7157", "P04637"];
+
+const tsv = (...rows: string[][]) =>
+  [HEADER, ...rows.map((row) => row.join("\t"))].join("\n");
+
+describe("buildIdentifierIndex", () => {
+  it("builds a record per symbol", () => {
+    const { records, report } = buildIdentifierIndex(
+      tsv(TP53, ["A1BG", "", "", "", "", "P04217"])
+    );
+    expect(records).toEqual<IdentifierRecord[]>([
+      {
+        symbol: "A1BG",
+        aliases: [],
+        previousSymbols: [],
+        ensemblGeneId: null,
+        entrezId: null,
+        accessions: ["P04217"],
+      },
+      {
+        symbol: "TP53",
+        aliases: ["P53", "LFS1"],
+        previousSymbols: [],
+        ensemblGeneId: "ENSG00000141510",
+        entrezId: "7157",
+        accessions: ["P04637"],
+      },
+    ]);
+    expect(report).toMatchObject({ rows: 2, records: 2, invalid: [] });
+  });
+
+  it("finds columns by name and accepts CRLF line endings", () => {
+    const text = [
+      "uniprot_ids\tentrez_id\tsymbol\tprev_symbol\talias_symbol\tensembl_gene_id",
+      "P04637\t7157\tTP53\t\t\tENSG00000141510.17",
+      "",
+    ].join("\r\n");
+    const { records } = buildIdentifierIndex(text);
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      symbol: "TP53",
+      entrezId: "7157",
+      ensemblGeneId: "ENSG00000141510",
+    });
+  });
+
+  it("fails on a missing column", () => {
+    const header = HEADER.replace("\tentrez_id", "");
+    expect(() => buildIdentifierIndex(`${header}\nTP53\t\t\t\tP04637`)).toThrow(
+      'Identifier mapping is missing the "entrez_id" column'
+    );
+  });
+
+  it("reports invalid rows and leaves them out", () => {
+    const { records, report } = buildIdentifierIndex(
+      tsv(
+        TP53,
+        ["", "", "", "", "", "P04217"],
+        ["BAD1", "", "", "", "", "P0463"],
+        ["BAD2", "", "", "ENSG123", "", "Q9NQ94"],
+        ["BAD3", "", "", "", "GeneID:1", "P01023"]
+      )
+    );
+    expect(records.map(({ symbol }) => symbol)).toEqual(["TP53"]);
+    expect(report.invalid).toEqual([
+      'row 3: invalid symbol ""',
+      'row 4: invalid UniProt accession "P0463"',
+      'row 5: invalid Ensembl gene ID "ENSG123"',
+      'row 6: invalid Entrez gene ID "GeneID:1"',
+    ]);
+  });
+
+  it("counts rows without an accession", () => {
+    const { records, report } = buildIdentifierIndex(
+      tsv(TP53, ["MIR21", "", "", "", "406991", ""])
+    );
+    expect(records).toHaveLength(1);
+    expect(report.withoutAccession).toBe(1);
+  });
+
+  it("tells exact duplicates from conflicting ones", () => {
+    const { records, report } = buildIdentifierIndex(
+      tsv(TP53, TP53, ["tp53", "", "", "", "", "Q00987"])
+    );
+    expect(records).toHaveLength(1);
+    expect(records[0].accessions).toEqual(["P04637"]);
+    expect(report.duplicates).toEqual(["row 3: TP53 repeated"]);
+    expect(report.conflicts).toEqual([
+      "row 4: tp53 conflicts with an earlier row, keeping the first",
+    ]);
+  });
+
+  it("counts records with values in the optional columns", () => {
+    const { report } = buildIdentifierIndex(
+      tsv(TP53, ["A1BG", "", "", "", "", "P04217"])
+    );
+    expect(report.withValues).toEqual({
+      aliases: 1,
+      previousSymbols: 0,
+      ensemblGeneId: 1,
+      entrezId: 1,
+    });
+  });
+
+  it("reports accessions shared by several symbols", () => {
+    const { records, report } = buildIdentifierIndex(
+      tsv(
+        ["CDKN2A", "", "", "", "", "P42771|Q8N726"],
+        ["ARF", "", "", "", "", "Q8N726"]
+      )
+    );
+    expect(records).toHaveLength(2);
+    expect(report.sharedAccessions).toEqual(["Q8N726: ARF, CDKN2A"]);
+  });
+
+  it('splits quoted HGNC lists such as "A|B"', () => {
+    const { records } = buildIdentifierIndex(
+      tsv(["TP53", '"P53|LFS1"', '"OLD53"', "", "", '"P04637|Q53GA5"'])
+    );
+    expect(records[0]).toMatchObject({
+      aliases: ["P53", "LFS1"],
+      previousSymbols: ["OLD53"],
+      accessions: ["P04637", "Q53GA5"],
+    });
+  });
+});
+
+describe("serializeIdentifierIndex", () => {
+  it("round-trips through parseIdentifierIndex", () => {
+    const { records } = buildIdentifierIndex(
+      tsv(
+        TP53,
+        ["A1BG", "", "", "", "", "P04217"],
+        ["CDKN2A", "ARF|p16", "MTS1", "", "1029", "P42771|Q8N726"]
+      )
+    );
+    const payload = serializeIdentifierIndex(records);
+    expect(parseIdentifierIndex(payload)).toEqual(records);
+  });
+
+  it("drops trailing empty fields", () => {
+    const payload = serializeIdentifierIndex([
+      {
+        symbol: "A1BG",
+        aliases: [],
+        previousSymbols: [],
+        ensemblGeneId: null,
+        entrezId: null,
+        accessions: ["P04217"],
+      },
+    ]);
+    expect(payload).toBe("A1BG\tP04217");
+  });
+});
+
+describe("toIdentifierMapping", () => {
+  it("keeps the mapping columns of an HGNC download, sorted by symbol", () => {
+    const hgnc = [
+      "hgnc_id\tsymbol\tname\talias_symbol\tprev_symbol\tentrez_id\tensembl_gene_id\tuniprot_ids",
+      'HGNC:11998\tTP53\ttumor protein p53\t"P53|LFS1"\t\t7157\tENSG00000141510\tP04637',
+      "HGNC:5\tA1BG\talpha-1-B glycoprotein\t\t\t1\tENSG00000121410\tP04217",
+      "",
+    ].join("\r\n");
+    expect(toIdentifierMapping(hgnc)).toBe(
+      [
+        HEADER,
+        "A1BG\t\t\tENSG00000121410\t1\tP04217",
+        TP53.join("\t"),
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("produces a mapping the plugin accepts", () => {
+    const mapping = toIdentifierMapping(tsv(TP53));
+    expect(buildIdentifierIndex(mapping).report).toMatchObject({
+      records: 1,
+      invalid: [],
+    });
+  });
+});
@@ -0,0 +1,288 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import type { Plugin } from "vite";
+import {
+  IdentifierRecord,
+  serializeIdentifierIndex,
+} from "../src/lib/identifier-records";
+
+// Turns the identifier mapping TSV into the `virtual:identifier-index`
+// module. The TSV uses HGNC's column names, so both the curated
+// data/identifier_mapping.tsv and an unmodified HGNC complete-set download
+// (hgnc_complete_set.txt) can be used as the source.
+
+const VIRTUAL_ID = "virtual:identifier-index";
+const RESOLVED_VIRTUAL_ID = `\0${VIRTUAL_ID}`;
+
+const COLUMNS = {
+  symbol: "symbol",
+  aliases: "alias_symbol",
+  previousSymbols: "prev_symbol",
+  ensemblGeneId: "ensembl_gene_id",
+  entrezId: "entrez_id",
+  accessions: "uniprot_ids",
+};
+
+const UNIPROT_ACCESSION =
+  /^([OPQ][0-9][A-Z0-9]{3}[0-9]|[A-NR-Z][0-9]([A-Z][A-Z0-9]{2}[0-9]){1,2})$/;
+const ENSEMBL_GENE = /^ENSG\d{11}$/;
+const ENTREZ_GENE = /^\d+$/;
+const SYMBOL = /^\S+$/;
+
+// Columns a row may leave empty. An HGNC download fills them for most
+// genes; if one is empty throughout, that kind of search can't match.
+type OptionalColumn =
+  | "aliases"
+  | "previousSymbols"
+  | "ensemblGeneId"
+  | "entrezId";
+
+const OPTIONAL_COLUMNS: OptionalColumn[] = [
+  "aliases",
+  "previousSymbols",
+  "ensemblGeneId",
+  "entrezId",
+];
+
+// For warnings, as in "searches by Entrez gene ID"
+const COLUMN_LABELS: Record<OptionalColumn, string> = {
+  aliases: "alias",
+  previousSymbols: "previous symbol",
+  ensemblGeneId: "Ensembl gene ID",
+  entrezId: "Entrez gene ID",
+};
+
+export interface IdentifierIndexReport {
+  rows: number;
+  records: number;
+  withoutAccession: number;
+  invalid: string[];
+  duplicates: string[];
+  conflicts: string[];
+  sharedAccessions: string[];
+  // Kept records with at least one value in each optional column
+  withValues: Record<OptionalColumn, number>;
+}
+
+function splitList(value: string | undefined) {
+  return (value ?? "")
+    .trim()
+    .replace(/^"|"$/g, "")
+    .split("|")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// Position of each column we use, by HGNC column name
+function columnIndices(header: string) {
+  const columns = header.split("\t").map((name) => name.trim());
+  const column = (name: string) => {
+    const index = columns.indexOf(name);
+    if (index === -1) {
+      throw new Error(`Identifier mapping is missing the "${name}" column`);
+    }
+    return index;
+  };
+  return {
+    symbol: column(COLUMNS.symbol),
+    aliases: column(COLUMNS.aliases),
+    previousSymbols: column(COLUMNS.previousSymbols),
+    ensemblGeneId: column(COLUMNS.ensemblGeneId),
+    entrezId: column(COLUMNS.entrezId),
+    accessions: column(COLUMNS.accessions),
+  };
+}
+
+// Reduces an HGNC complete-set download to the columns above, in the
+// layout of data/identifier_mapping.tsv: sorted by symbol (ABCA2 before
+// ABCA10), lists without the quotes HGNC puts around them.
+export function toIdentifierMapping(hgnc: string) {
+  const [header, ...lines] = hgnc.split(/\r?\n/);
+  const indices = columnIndices(header);
+  const names = Object.keys(indices) as (keyof typeof indices)[];
+  const rows = lines
+    .filter((line) => line.trim())
+    .map((line) => {
+      const fields = line.split("\t");
+      return names.map((name) => splitList(fields[indices[name]]).join("|"));
+    })
+    .sort(([a], [b]) => a.localeCompare(b, "en", { numeric: true }));
+  return [names.map((name) => COLUMNS[name]), ...rows]
+    .map((row) => row.join("\t"))
+    .join("\n")
+    .concat("\n");
+}
+
+export function buildIdentifierIndex(text: string) {
+  const [header, ...lines] = text.split(/\r?\n/);
+  const indices = columnIndices(header);
+
+  const report: IdentifierIndexReport = {
+    rows: 0,
+    records: 0,
+    withoutAccession: 0,
+    invalid: [],
+    duplicates: [],
+    conflicts: [],
+    sharedAccessions: [],
+    withValues: {
+      aliases: 0,
+      previousSymbols: 0,
+      ensemblGeneId: 0,
+      entrezId: 0,
+    },
+  };
+  const bySymbol = new Map<string, IdentifierRecord>();
+
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    report.rows++;
+    const row = i + 2;
+    const fields = line.split("\t");
+    const record: IdentifierRecord = {
+      symbol: fields[indices.symbol]?.trim() ?? "",
+      aliases: splitList(fields[indices.aliases]),
+      previousSymbols: splitList(fields[indices.previousSymbols]),
+      ensemblGeneId:
+        fields[indices.ensemblGeneId]?.trim().replace(/\.\d+$/, "") || null,
+      entrezId: fields[indices.entrezId]?.trim() || null,
+      accessions: splitList(fields[indices.accessions]),
+    };
+
+    const problems = [
+      !SYMBOL.test(record.symbol) && `invalid symbol "${record.symbol}"`,
+      ...record.accessions
+        .filter((accession) => !UNIPROT_ACCESSION.test(accession))
+        .map((accession) => `invalid UniProt accession "${accession}"`),
+      record.ensemblGeneId &&
+        !ENSEMBL_GENE.test(record.ensemblGeneId) &&
+        `invalid Ensembl gene ID "${record.ensemblGeneId}"`,
+      record.entrezId &&
+        !ENTREZ_GENE.test(record.entrezId) &&
+        `invalid Entrez gene ID "${record.entrezId}"`,
+    ].filter(Boolean);
+    if (problems.length > 0) {
+      report.invalid.push(`row ${row}: ${problems.join(", ")}`);
+      return;
+    }
+    if (record.accessions.length === 0) {
+      report.withoutAccession++;
+      return;
+    }
+
+    const key = record.symbol.toUpperCase();
+    const existing = bySymbol.get(key);
+    if (!existing) {
+      bySymbol.set(key, record);
+    } else if (
+      serializeIdentifierIndex([existing]) ===
+      serializeIdentifierIndex([record])
+    ) {
+      report.duplicates.push(`row ${row}: ${record.symbol} repeated`);
+    } else {
+      report.conflicts.push(
+        `row ${row}: ${record.symbol} conflicts with an earlier row, keeping the first`
+      );
+    }
+  });
+
+  const records = Array.from(bySymbol.values()).sort((a, b) =>
+    a.symbol.localeCompare(b.symbol)
+  );
+  report.records = records.length;
+  OPTIONAL_COLUMNS.forEach((name) => {
+    report.withValues[name] = records.filter((record) => {
+      const value = record[name];
+      return Array.isArray(value) ? value.length > 0 : value !== null;
+    }).length;
+  });
+
+  const symbolsByAccession = new Map<string, string[]>();
+  records.forEach((record) =>
+    record.accessions.forEach((accession) =>
+      symbolsByAccession.set(accession, [
+        ...(symbolsByAccession.get(accession) ?? []),
+        record.symbol,
+      ])
+    )
+  );
+  symbolsByAccession.forEach((symbols, accession) => {
+    if (symbols.length > 1) {
+      report.sharedAccessions.push(`${accession}: ${symbols.join(", ")}`);
+    }
+  });
+
+  return { records, report };
+}
+
+function summarize(label: string, issues: string[], limit = 10) {
+  const shown = issues.slice(0, limit).map((issue) => `  ${issue}`);
+  const more =
+    issues.length > limit ? [`  ... and ${issues.length - limit} more`] : [];
+  return [`${issues.length} ${label}:`, ...shown, ...more].join("\n");
+}
+
+export interface IdentifierIndexOptions {
+  source: string;
+  // Fail the build on invalid rows or conflicting duplicates
+  strict?: boolean;
+}
+
+export function identifierIndexPlugin({
+  source,
+  strict = false,
+}: IdentifierIndexOptions): Plugin {
+  const sourcePath = path.resolve(source);
+
+  return {
+    name: "identifier-index",
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_VIRTUAL_ID : null;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_VIRTUAL_ID) return null;
+      this.addWatchFile(sourcePath);
+
+      const { records, report } = buildIdentifierIndex(
+        readFileSync(sourcePath, "utf8")
+      );
+      const problems = [
+        report.invalid.length > 0 && summarize("invalid rows", report.invalid),
+        report.conflicts.length > 0 &&
+          summarize("conflicting duplicate symbols", report.conflicts),
+      ].filter((problem): problem is string => Boolean(problem));
+      if (strict && problems.length > 0) {
+        this.error(`${path.basename(sourcePath)}\n${problems.join("\n")}`);
+      }
+      [
+        ...problems,
+        report.duplicates.length > 0 &&
+          summarize("duplicate rows", report.duplicates),
+        ...OPTIONAL_COLUMNS.filter(
+          (name) => report.records > 0 && report.withValues[name] === 0
+        ).map(
+          (name) =>
+            `the "${COLUMNS[name]}" column is empty in every row, so searches by ${COLUMN_LABELS[name]} will not match`
+        ),
+        report.sharedAccessions.length > 0 &&
+          summarize(
+            "accessions shared by several symbols",
+            report.sharedAccessions,
+            3
+          ),
+      ]
+        .filter((warning): warning is string => Boolean(warning))
+        .forEach((warning) => this.warn(warning));
+      this.info?.(
+        `${report.records} identifier records from ${report.rows} rows ` +
+          `(${report.withoutAccession} without UniProt accession)`
+      );
+
+      return `export default ${JSON.stringify(
+        serializeIdentifierIndex(records)
+      )};\n`;
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  buildIdentifierIndex,
+  toIdentifierMapping,
+} from "../plugins/identifier-index";
+
+// Regenerates data/identifier_mapping.tsv from the HGNC complete set.
+//
+//   npm run update:identifiers [-- <url or path to hgnc_complete_set.txt>]
+
+const HGNC_COMPLETE_SET =
+  "https://storage.googleapis.com/public-download-files/hgnc/tsv/tsv/hgnc_complete_set.txt";
+const TARGET = path.resolve(
+  path.dirname(new URL(import.meta.url).pathname),
+  "../data/identifier_mapping.tsv"
+);
+
+async function readSource(source: string) {
+  if (!/^https?:\/\//.test(source)) return readFile(source, "utf8");
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`${source} returned ${response.status}`);
+  }
+  return response.text();
+}
+
+const source = process.argv[2] ?? HGNC_COMPLETE_SET;
+console.log(`Reading ${source}`);
+const mapping = toIdentifierMapping(await readSource(source));
+
+// Same checks as the build, so a bad download doesn't replace a good file
+const { report } = buildIdentifierIndex(mapping);
+if (report.invalid.length || report.conflicts.length) {
+  console.error([...report.invalid, ...report.conflicts].join("\n"));
+  process.exit(1);
+}
+await writeFile(TARGET, mapping);
+console.log(
+  `Wrote ${report.records} records to ${path.relative(process.cwd(), TARGET)}`,
+  report.withValues
+);
@@ -1,15 +1,7 @@
-import { useState, useEffect, useRef, useMemo, MutableRefObject } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import {
-  Card,
-  CardContent,
-  CardHeader,
-  CardTitle,
-  CardDescription,
-  CardFooter,
-} from "@/components/ui/card";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -24,236 +16,320 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
+import { CacheControl } from "@/components/CacheControl";
+import { ChainList } from "@/components/ChainList";
 import {
-  DefaultPluginUISpec,
-  PluginUISpec,
-} from "molstar/lib/mol-plugin-ui/spec";
-import { createPluginUI } from "molstar/lib/mol-plugin-ui";
-import { renderReact18 } from "molstar/lib/mol-plugin-ui/react18";
-import { PluginConfig } from "molstar/lib/mol-plugin/config";
-import symbolUniprotMapping from "@/lib/symbol_uniprot_mapping.txt";
-import "molstar/lib/mol-plugin-ui/skin/light.scss";
-import { Search, ExternalLink, ChevronDown, Loader2 } from "lucide-react";
-
-const MySpec: PluginUISpec = {
-  ...DefaultPluginUISpec(),
-  config: [
-    [PluginConfig.VolumeStreaming.Enabled, false],
-    [PluginConfig.Viewport.ShowControls, false],
-    [PluginConfig.Viewport.ShowSelectionMode, false],
-  ],
-  layout: {
-    initial: {
-      showControls: false,
-    },
-  },
-  components: {
-    hideTaskOverlay: true,
-  },
-};
+  AnnotationLegend,
+  ColorBySelect,
+  ConfidenceLegend,
+} from "@/components/ColorByControl";
+import { CommentText } from "@/components/CommentText";
+import { ErrorNotice } from "@/components/ErrorNotice";
+import { InteractionNetwork } from "@/components/InteractionNetwork";
+import { LigandPanel } from "@/components/LigandPanel";
+import { LiteraturePanel } from "@/components/LiteraturePanel";
+import { PaeHeatmap } from "@/components/PaeHeatmap";
+import { MutationPanel } from "@/components/MutationPanel";
+import { LoadedModel, ProteinViewer } from "@/components/ProteinViewer";
+import { StructureDropZone } from "@/components/StructureDropZone";
+import { VariantPanel } from "@/components/VariantPanel";
+import { SequenceViewer } from "@/components/SequenceViewer";
+import { StructureTable } from "@/components/StructureTable";
+import { StructureToolbar } from "@/components/StructureToolbar";
+import { SymbolSearchInput } from "@/components/SymbolSearchInput";
+import {
+  annotationColoring,
+  categoryCounts,
+  ColorByMode,
+  isColorByMode,
+  selectedCategories,
+} from "@/lib/annotation-coloring";
+import { StructureSummary } from "@/lib/beacons";
+import { isPredicted, paeUrl } from "@/lib/confidence";
+import { localStructures } from "@/lib/data-sources";
+import { IdentifierResolver, loadIdentifierResolver } from "@/lib/identifiers";
+import {
+  checkMutation,
+  formatMutation,
+  MutationQuery,
+  parseMutationQuery,
+} from "@/lib/mutations";
+import { useLocalStructures } from "@/hooks/use-local-structures";
+import { usePae } from "@/hooks/use-pae";
+import { useProteinSearch } from "@/hooks/use-protein-search";
+import { useRoute } from "@/hooks/use-route";
+import { ComplexView, parseRoute } from "@/lib/routes";
+import type { ResidueRegion } from "@/lib/uniprot";
+import { cn } from "@/lib/utils";
+import { variantRows } from "@/lib/variants";
+import { DEFAULT_DISPLAY, ViewerController } from "@/lib/viewer";
+import { Search, ChevronDown, Loader2, Camera } from "lucide-react";
 
-async function fetchUniProtData(uniprotId: string) {
-  const response = await fetch(
-    `https://rest.uniprot.org/uniprotkb/${uniprotId}`
+export default function App() {
+  const [input, setInput] = useState("");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [resolver, setResolver] = useState<IdentifierResolver | null>(null);
+  const [route, navigate] = useRoute();
+  const { state: search, resolve, retry } = useProteinSearch(route.accession);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const viewerRef = useRef<ViewerController>(null);
+  // Set when an opened structure file can't be read
+  const [localFileError, setLocalFileError] = useState<unknown>(null);
+  // Panel state starts from the URL and is written back to it, see below
+  const [residueSelection, setResidueSelection] =
+    useState<ResidueRegion | null>(route.residues ?? null);
+  // Residue under the pointer in the sequence or in the 3D viewer; each
+  // side highlights the position hovered on the other.
+  const [sequenceHover, setSequenceHover] = useState<number | null>(null);
+  const [structureHover, setStructureHover] = useState<number | null>(null);
+  const [colorBy, setColorBy] = useState<ColorByMode>(() =>
+    route.colorBy && isColorByMode(route.colorBy) ? route.colorBy : "default"
+  );
+  // Lives here rather than in the viewer so it survives structure switches
+  const [display, setDisplay] = useState(DEFAULT_DISPLAY);
+  const [loadedModel, setLoadedModel] = useState<LoadedModel | null>(null);
+  // Keys of the variants marked on the structure, see variantRows
+  const [selectedVariants, setSelectedVariants] = useState<string[]>([]);
+  // Set by searches like "TP53 R175H"; only shown for its own protein
+  const [mutationQuery, setMutationQuery] = useState<
+    (MutationQuery & { accession: string }) | null
+  >(null);
+  const [complexView, setComplexView] = useState<ComplexView>(
+    route.complexView ?? "network"
   );
-  if (!response.ok) {
-    throw new Error("Failed to fetch UniProt data");
-  }
-  return response.json();
-}
-
-async function createPlugin(parent: HTMLElement, dataUrl: string) {
-  const plugin = await createPluginUI({
-    target: parent,
-    spec: MySpec,
-    render: renderReact18,
-  });
 
-  const data = await plugin.builders.data.download(
-    { url: dataUrl },
-    { state: { isGhost: true } }
+  const hasSearched = route.accession !== null;
+  const loading = search.status === "resolving" || search.status === "loading";
+  const proteinData =
+    search.entry.status === "ready" ? search.entry.data : null;
+  const localModels = useLocalStructures(route.accession);
+  const availableStructures = [
+    ...(search.structures.status === "ready" ? search.structures.data : []),
+    ...localModels,
+  ];
+  const selectedStructure =
+    availableStructures.find(({ id }) => id === route.structure) ??
+    availableStructures[0] ??
+    null;
+  const predicted =
+    selectedStructure !== null && isPredicted(selectedStructure);
+  const { pae, retry: retryPae } = usePae(
+    selectedStructure && paeUrl(selectedStructure)
   );
-  const trajectory = await plugin.builders.structure.parseTrajectory(
-    data,
-    "mmcif"
+  const unresolved = search.resolution;
+  const sequenceRegion = useMemo(
+    () =>
+      sequenceHover === null
+        ? null
+        : { start: sequenceHover, end: sequenceHover },
+    [sequenceHover]
   );
-  await plugin.builders.structure.hierarchy.applyPreset(trajectory, "default");
-
-  return plugin;
-}
-
-function ProteinViewer({ dataUrl }: { dataUrl: string }) {
-  const viewerRef: MutableRefObject<HTMLDivElement | null> = useRef(null);
-  const pluginRef: MutableRefObject<any | null> = useRef(null);
+  const features = proteinData?.features;
+  const featureCounts = useMemo(
+    () => categoryCounts(features ?? []),
+    [features]
+  );
+  const coloring = useMemo(
+    () =>
+      colorBy === "default"
+        ? null
+        : annotationColoring(features ?? [], selectedCategories(colorBy)),
+    [features, colorBy]
+  );
+  const diseases = proteinData?.diseases;
+  const variants = useMemo(
+    () => variantRows(features ?? [], diseases ?? []),
+    [features, diseases]
+  );
+  const markedRegions = useMemo(
+    () =>
+      variants
+        .filter(({ key }) => selectedVariants.includes(key))
+        .map(({ region }) => region),
+    [variants, selectedVariants]
+  );
+  const mutation =
+    mutationQuery && proteinData?.accession === mutationQuery.accession
+      ? mutationQuery
+      : null;
+  const error =
+    unresolved?.status === "ambiguous"
+      ? `"${unresolved.query}" matches several UniProt entries, please pick one.`
+      : search.error?.message ?? null;
 
+  const handleModelClick = (summary: StructureSummary) => {
+    navigate({ ...route, structure: summary.id }, { replace: true });
+    setIsDialogOpen(false);
+  };
   useEffect(() => {
-    if (!viewerRef.current || !dataUrl) return;
-
-    createPlugin(viewerRef.current, dataUrl).then((plugin) => {
-      pluginRef.current = plugin;
-    });
+    loadIdentifierResolver().then(setResolver);
+  }, []);
 
-    return () => {
-      if (pluginRef.current) {
-        pluginRef.current.dispose();
-      }
-    };
-  }, [dataUrl]);
+  // Residue numbers only make sense for the protein they were picked on;
+  // going back to a protein restores the selection in its URL
+  useEffect(() => {
+    setResidueSelection(parseRoute(window.location).residues ?? null);
+    setSequenceHover(null);
+    setStructureHover(null);
+    setSelectedVariants([]);
+    setLocalFileError(null);
+    setMutationQuery((current) =>
+      current?.accession === route.accession ? current : null
+    );
+  }, [route.accession]);
 
-  return (
-    <div
-      ref={viewerRef}
-      style={{
-        width: "100%",
-        height: "100%",
-        position: "relative",
-        zIndex: 10,
-      }}
-    />
-  );
-}
+  // Keeps the URL in step with the panels so links reopen the same view.
+  // Delayed because dragging a selection changes it on every pointer move.
+  useEffect(() => {
+    if (!route.accession) return;
+    const timer = setTimeout(
+      () =>
+        navigate(
+          (current) => ({
+            ...current,
+            residues: residueSelection,
+            colorBy: colorBy === "default" ? null : colorBy,
+            complexView: complexView === "network" ? null : complexView,
+          }),
+          { replace: true }
+        ),
+      300
+    );
+    return () => clearTimeout(timer);
+  }, [navigate, route.accession, residueSelection, colorBy, complexView]);
 
-function renderLinks(text: string) {
-  // Step 1: Replace PubMed references
-  const pubmedReplaced = text.replace(
-    /\(PubMed:(\d+)(?:,\s*PubMed:(\d+))*\)/g,
-    (match) => {
-      const ids = match.match(/\d+/g);
-      if (!ids) return match;
-      return (
-        "(" +
-        ids
-          .map(
-            (id) =>
-              `<a href="https://pubmed.ncbi.nlm.nih.gov/${id}" target="_blank" rel="noopener noreferrer" class="text-indigo-600 hover:text-indigo-800">PubMed:${id}<span class="inline-block align-text-bottom ml-1"><svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6"></path><polyline points="15 3 21 3 21 9"></polyline><line x1="10" y1="14" x2="21" y2="3"></line></svg></span></a>`
-          )
-          .join(", ") +
-        ")"
-      );
+  // A mutation search opens on the mutated residue, provided the wild type
+  // matches; mismatches are only reported
+  const sequenceValue = proteinData?.sequence?.value;
+  useEffect(() => {
+    if (!mutation || !sequenceValue) return;
+    const { position } = mutation.mutation;
+    if (checkMutation(mutation.mutation, sequenceValue).status === "match") {
+      setResidueSelection({ start: position, end: position });
     }
-  );
-
-  // Step 2: Apply other replacements
-  return pubmedReplaced
-    .replace(
-      /\[([^\]]+)\]\(([^)]+)\)/g,
-      '<a href="$2" target="_blank" rel="noopener noreferrer" class="text-indigo-600 hover:text-indigo-800">$1<span class="inline-block align-text-bottom ml-1"><svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6"></path><polyline points="15 3 21 3 21 9"></polyline><line x1="10" y1="14" x2="21" y2="3"></line></svg></span></a>'
-    )
-    .replace(/\. /g, ".<br>");
-}
+  }, [mutation, sequenceValue]);
 
-export default function App() {
-  const [input, setInput] = useState("");
-  const [proteinData, setProteinData] = useState<any>(null);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [availableStructures, setAvailableStructures] = useState<any[]>([]);
-  const [selectedStructureURL, setSelectedStructureURL] = useState<string>("");
-  const [selectedStructureID, setSelectedStructureID] = useState<string>("");
-  const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [hasSearched, setHasSearched] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const inputRef = useRef<HTMLInputElement>(null);
-
-  const handleModelClick = (model_url: string) => {
-    setSelectedStructureURL(model_url);
-    setIsDialogOpen(false);
-  };
-  const fetchSymbolToUniprotMap = async (): Promise<{
-    [key: string]: string;
-  }> => {
+  const handleLocalFiles = async (files: File[]) => {
+    if (!route.accession || !proteinData || files.length === 0) return;
+    const accession = route.accession;
+    setLocalFileError(null);
     try {
-      const response = await fetch(symbolUniprotMapping);
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      const text = await response.text();
-      const lines = text.split("\n");
-      const mapping: { [key: string]: string } = {};
-      lines.forEach((line) => {
-        const [symbol, uniprotId] = line.split(",");
-        if (symbol && uniprotId) {
-          mapping[symbol] = uniprotId;
-        }
-      });
-      return mapping;
+      const added = await Promise.all(
+        files.map((file) =>
+          localStructures
+            .add(file, accession, proteinData.sequence?.length ?? 0)
+            .catch((error) => {
+              console.error(`Error reading ${file.name}:`, error);
+              throw new Error(`Could not read ${file.name}`);
+            })
+        )
+      );
+      navigate(
+        (current) =>
+          current.accession === accession
+            ? { ...current, structure: added[added.length - 1].id }
+            : current,
+        { replace: true }
+      );
     } catch (error) {
-      console.error("Error loading mapping file:", error);
-      return {};
+      setLocalFileError(error);
     }
   };
 
-  const symbolToUniprotMap = useMemo(() => {
-    const loadMapping = async () => {
-      return await fetchSymbolToUniprotMap();
-    };
-
-    return loadMapping();
-  }, []);
+  const handleRemoveLocal = (summary: StructureSummary) => {
+    localStructures.remove(summary.id);
+    if (selectedStructure?.id === summary.id) {
+      navigate({ ...route, structure: null }, { replace: true });
+    }
+  };
 
-  const handleFetchData = async () => {
-    setIsLoading(true);
-    setLoading(true);
-    setError(null);
-    try {
-      let query = input.trim();
-      const isUniprot = /^[A-Z0-9]{6,10}$/.test(query);
+  const handleFetchData = async (rawQuery: string = input) => {
+    const parsed = parseMutationQuery(rawQuery);
+    const resolved = await resolve(parsed?.protein ?? rawQuery);
+    if (!resolved) return;
+    // "P04637-2:p.R175H" is numbered on the isoform, so open its entry
+    const accession = parsed?.isoform
+      ? `${resolved}-${parsed.isoform}`
+      : resolved;
+    setMutationQuery(parsed && { ...parsed, accession });
+    if (accession !== route.accession) {
+      navigate({ accession, structure: null });
+    }
+  };
 
-      if (!isUniprot) {
-        console.log("Querying for Gene Symbol:", query);
-        const mapping = await symbolToUniprotMap;
-        if (mapping[query]) {
-          query = mapping[query];
-          console.log("Mapped UniProt ID:", query);
-        } else {
-          throw new Error("No UniProt ID found for the given Gene Symbol.");
-        }
-      }
+  const handleSnapshot = async () => {
+    const image = await viewerRef.current
+      ?.snapshot()
+      .catch((error) => console.error("Error saving image:", error));
+    if (!image || !selectedStructure) return;
+    const link = document.createElement("a");
+    link.href = image;
+    link.download = `${selectedStructure.id}.png`;
+    link.click();
+  };
 
-      // Fetch UniProt data
-      const uniProtData = await fetchUniProtData(query);
-      setProteinData(uniProtData);
+  const handleOpenAccession = (accession: string) =>
+    navigate({ accession, structure: null });
 
-      // Fetch 3D model data
-      const modelResponse = await fetch(
-        `https://www.ebi.ac.uk/pdbe/pdbe-kb/3dbeacons/api/v2/uniprot/summary/${query}.json`
-      );
-      const modelData = await modelResponse.json();
-      if (
-        modelData &&
-        modelData.structures &&
-        modelData.structures.length > 0
-      ) {
-        setAvailableStructures(modelData.structures);
-        setSelectedStructureURL(modelData.structures[0].summary.model_url);
-        setSelectedStructureID(
-          modelData.structures[0].summary.model_identifier
-        );
-        console.log("Model data fetched:", modelData.structures[0]);
-      }
-      setHasSearched(true);
-    } catch (error) {
-      if (error instanceof Error) {
-        setError(error.message);
-      } else {
-        setError("An unknown error occurred");
-      }
-    } finally {
-      setLoading(false);
-      setTimeout(() => setIsLoading(false), 500); // Delay to allow for transition
-    }
+  const handleSuggestionClick = (query: string) => {
+    setInput(query);
+    handleFetchData(query);
   };
 
-  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
-    if (event.key === "Enter") {
-      handleFetchData();
-    }
-  };
+  const searchFeedback = error && (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="w-full mt-4 text-center"
+    >
+      <p className="text-red-500">{error}</p>
+      {unresolved?.status === "unresolved" &&
+        unresolved.suggestions.length > 0 && (
+          <p className="mt-2 text-gray-600">
+            Did you mean{" "}
+            {unresolved.suggestions.map((match, index) => (
+              <span key={match.symbol}>
+                {index > 0 && ", "}
+                <button
+                  type="button"
+                  onClick={() => handleSuggestionClick(match.symbol)}
+                  className="font-medium text-indigo-600 hover:text-indigo-800"
+                >
+                  {match.symbol}
+                </button>{" "}
+                <span className="text-sm text-gray-500">
+                  ({match.accession})
+                </span>
+              </span>
+            ))}
+            ?
+          </p>
+        )}
+      {unresolved?.status === "ambiguous" && (
+        <ul className="mt-2 space-y-1 text-gray-600">
+          {unresolved.candidates.map((candidate) => (
+            <li key={`${candidate.symbol}-${candidate.accession}`}>
+              <button
+                type="button"
+                onClick={() => handleSuggestionClick(candidate.accession)}
+                className="font-medium text-indigo-600 hover:text-indigo-800"
+              >
+                {candidate.accession}
+              </button>{" "}
+              <span className="text-sm text-gray-500">
+                {candidate.symbol} ({candidate.matchedBy.replace("-", " ")})
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </motion.div>
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 relative">
       <AnimatePresence>
-        {isLoading && (
+        {search.status === "loading" && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -284,17 +360,17 @@ export default function App() {
                 Search for human proteins by Gene Symbol or UniProt ID
               </p>
               <div className="w-full max-w-md">
-                <Input
+                <SymbolSearchInput
                   ref={inputRef}
-                  type="text"
                   value={input}
-                  onChange={(e) => setInput(e.target.value)}
-                  onKeyDown={handleKeyDown}
-                  placeholder="For example enter: TP53 or P04637"
+                  onValueChange={setInput}
+                  onSubmit={handleFetchData}
+                  index={resolver?.symbols ?? null}
+                  placeholder="For example enter: TP53, P04637 or TP53 R175H"
                   className="w-full mb-4"
                 />
                 <Button
-                  onClick={handleFetchData}
+                  onClick={() => handleFetchData()}
                   disabled={loading}
                   className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold transition-colors duration-200"
                 >
@@ -304,6 +380,7 @@ export default function App() {
                     "Search"
                   )}
                 </Button>
+                {searchFeedback}
               </div>
             </motion.div>
           )}
@@ -328,17 +405,17 @@ export default function App() {
                 </PopoverTrigger>
                 <PopoverContent className="w-80 z-2">
                   <div className="flex flex-col space-y-2">
-                    <Input
+                    <SymbolSearchInput
                       ref={inputRef}
-                      type="text"
                       value={input}
-                      onChange={(e) => setInput(e.target.value)}
-                      onKeyDown={handleKeyDown}
+                      onValueChange={setInput}
+                      onSubmit={handleFetchData}
+                      index={resolver?.symbols ?? null}
                       placeholder="Enter Gene Symbol or UniProt ID - e.g. TP53 or P04637"
                       className="w-full"
                     />
                     <Button
-                      onClick={handleFetchData}
+                      onClick={() => handleFetchData()}
                       disabled={loading}
                       className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold transition-colors duration-200"
                     >
@@ -348,147 +425,323 @@ export default function App() {
                         "Search"
                       )}
                     </Button>
+                    <CacheControl />
                   </div>
                 </PopoverContent>
               </Popover>
             </motion.div>
 
-            {error && (
+            {searchFeedback}
+
+            {search.entry.status === "error" && (
               <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="w-full mt-4 text-center"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="flex-grow mt-8"
               >
-                <p className="text-red-500">{error}</p>
+                <Card className="shadow-md">
+                  <CardContent className="py-12">
+                    <ErrorNotice
+                      error={search.entry.error}
+                      onRetry={() => retry("entry")}
+                      onOpenAccession={handleOpenAccession}
+                    />
+                  </CardContent>
+                </Card>
               </motion.div>
             )}
 
-            <AnimatePresence>
-              {proteinData ? (
-                <motion.div
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  exit={{ opacity: 0 }}
-                  transition={{ duration: 0.5 }}
-                  className="flex-grow grid grid-cols-1 md:grid-cols-2 gap-4 mt-2 md:gap-8"
-                >
-                  {/* Column 1 */}
-                  <div className="flex flex-col space-y-4 md:space-y-8">
-                    {/* Structure Viewer */}
-                    <Card className="flex-grow shadow-md overflow-hidden">
-                      <CardHeader className="pb-2">
-                        <CardTitle className="text-2xl font-semibold text-indigo-600 flex justify-between items-center">
-                          <span>Structure</span>
-                          <Dialog
-                            open={isDialogOpen}
-                            onOpenChange={setIsDialogOpen}
-                          >
-                            <DialogTrigger asChild>
+            {/* Stays mounted across searches so the viewer keeps one Mol*
+                plugin; cards fill in once the entry has loaded */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ duration: 0.5 }}
+              className={cn(
+                "flex-grow grid grid-cols-1 md:grid-cols-2 gap-4 mt-2 md:gap-8",
+                search.entry.status === "error" && "hidden"
+              )}
+            >
+              {proteinData && mutation && (
+                <Card className="shadow-md overflow-hidden md:col-span-2">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-2xl font-semibold text-indigo-600">
+                      Mutation {formatMutation(mutation.mutation)}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <MutationPanel
+                      query={mutation}
+                      accession={proteinData.accession}
+                      sequence={proteinData.sequence?.value ?? ""}
+                      features={proteinData.features}
+                      variants={variants}
+                      onClose={() => setMutationQuery(null)}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Column 1 */}
+              <div className="flex flex-col space-y-4 md:space-y-8">
+                {/* Structure Viewer */}
+                <Card className="flex-grow shadow-md overflow-hidden">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-2xl font-semibold text-indigo-600 flex justify-between items-center">
+                      <span>Structure</span>
+                      <div className="flex items-center gap-2">
+                        <ColorBySelect
+                          value={colorBy}
+                          onChange={setColorBy}
+                          counts={featureCounts}
+                          predicted={predicted}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Save image"
+                          onClick={handleSnapshot}
+                          disabled={!selectedStructure}
+                          className="text-indigo-600 hover:bg-indigo-50"
+                        >
+                          <Camera className="h-5 w-5" />
+                        </Button>
+                        <Dialog
+                          open={isDialogOpen}
+                          onOpenChange={setIsDialogOpen}
+                        >
+                          <DialogTrigger asChild>
+                            <Button variant="outline" className="rounded-full">
+                              {selectedStructure?.id}{" "}
+                              <ChevronDown className="ml-2 h-4 w-4" />
+                            </Button>
+                          </DialogTrigger>
+                          <DialogContent className="max-w-5xl w-full">
+                            <DialogHeader>
+                              <DialogTitle>Select a Structure</DialogTitle>
+                              <DialogDescription>
+                                Sort and filter the available structures, or
+                                pick the best one for a residue range.
+                              </DialogDescription>
+                            </DialogHeader>
+                            <StructureTable
+                              structures={availableStructures}
+                              sequenceLength={
+                                proteinData?.sequence?.length ?? 0
+                              }
+                              selectedId={selectedStructure?.id ?? null}
+                              onSelect={handleModelClick}
+                              onRemove={handleRemoveLocal}
+                            />
+                          </DialogContent>
+                        </Dialog>
+                      </div>
+                    </CardTitle>
+                    <StructureToolbar
+                      display={display}
+                      onChange={setDisplay}
+                      onResetCamera={() => viewerRef.current?.focus()}
+                      colorSchemeOverridden={colorBy !== "default" || predicted}
+                      className="mt-2"
+                    />
+                  </CardHeader>
+                  <CardContent className="relative h-[400px] md:h-[calc(60vh-4rem)]">
+                    <StructureDropZone
+                      onFiles={handleLocalFiles}
+                      className="w-full h-full"
+                    >
+                      <ProteinViewer
+                        ref={viewerRef}
+                        structure={proteinData ? selectedStructure : null}
+                        accession={proteinData?.accession ?? ""}
+                        sequence={sequenceValue ?? ""}
+                        selection={residueSelection}
+                        highlight={sequenceRegion}
+                        marked={markedRegions}
+                        coloring={coloring}
+                        confidence={predicted}
+                        display={display}
+                        onModelLoaded={setLoadedModel}
+                        onResidueHover={setStructureHover}
+                        onResidueClick={(position) =>
+                          setResidueSelection({
+                            start: position,
+                            end: position,
+                          })
+                        }
+                      />
+                      {!proteinData ? (
+                        <motion.div
+                          className="absolute inset-0 z-30 bg-gray-200 rounded-lg"
+                          animate={{ opacity: [0.5, 1, 0.5] }}
+                          transition={{ duration: 1.5, repeat: Infinity }}
+                        />
+                      ) : (
+                        search.structures.status === "error" &&
+                        localModels.length === 0 && (
+                          <ErrorNotice
+                            error={search.structures.error}
+                            onRetry={() => retry("structures")}
+                            className="absolute inset-0 z-20 bg-white/90"
+                          />
+                        )
+                      )}
+                      {localFileError !== null && (
+                        <ErrorNotice
+                          error={localFileError}
+                          className="absolute top-2 left-2 right-2 z-20 rounded-md bg-white/90 p-2"
+                        />
+                      )}
+                    </StructureDropZone>
+                    {loadedModel &&
+                      loadedModel.structure === selectedStructure && (
+                        <ChainList
+                          chains={loadedModel.chains}
+                          onOpenAccession={handleOpenAccession}
+                          className="absolute top-8 right-8 z-20"
+                        />
+                      )}
+                    {predicted && colorBy === "default" ? (
+                      <ConfidenceLegend
+                        score={selectedStructure.confidenceType ?? "pLDDT"}
+                        className="absolute bottom-8 left-8 z-20"
+                      />
+                    ) : (
+                      <AnnotationLegend
+                        mode={colorBy}
+                        counts={featureCounts}
+                        className="absolute bottom-8 left-8 z-20"
+                      />
+                    )}
+                  </CardContent>
+                </Card>
+
+                {proteinData && (
+                  <>
+                    {pae && (
+                      <Card className="shadow-md overflow-hidden">
+                        <CardHeader className="pb-2">
+                          <CardTitle className="text-2xl font-semibold text-indigo-600">
+                            Predicted Aligned Error
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          {pae.status === "ready" ? (
+                            <PaeHeatmap
+                              pae={pae.data}
+                              onSelectionChange={setResidueSelection}
+                            />
+                          ) : pae.status === "error" ? (
+                            <ErrorNotice error={pae.error} onRetry={retryPae} />
+                          ) : (
+                            <div className="flex justify-center py-8">
+                              <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+                            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                    )}
+
+                    {loadedModel &&
+                      loadedModel.structure === selectedStructure && (
+                        <Card className="shadow-md overflow-hidden">
+                          <CardHeader className="pb-2">
+                            <CardTitle className="text-2xl font-semibold text-indigo-600">
+                              Ligands &amp; Binding Sites
+                            </CardTitle>
+                          </CardHeader>
+                          <CardContent>
+                            <LigandPanel
+                              model={loadedModel}
+                              viewer={viewerRef.current}
+                              sequence={proteinData.sequence?.value ?? ""}
+                              features={proteinData.features}
+                              onSelectResidue={(position) =>
+                                setResidueSelection({
+                                  start: position,
+                                  end: position,
+                                })
+                              }
+                            />
+                          </CardContent>
+                        </Card>
+                      )}
+                  </>
+                )}
+
+                {/* Protein Complex (moved from Column 2) */}
+                {proteinData ? (
+                  <Card className="shadow-md overflow-hidden">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-2xl font-semibold text-indigo-600 flex justify-between items-center">
+                        <span>Protein Complex</span>
+                        {proteinData.interactions.length > 0 && (
+                          <div className="flex items-center gap-1">
+                            {(["network", "text"] as const).map((view) => (
                               <Button
+                                key={view}
                                 variant="outline"
-                                className="rounded-full"
+                                size="sm"
+                                aria-pressed={complexView === view}
+                                onClick={() => setComplexView(view)}
+                                className={cn(
+                                  "h-8 px-2 text-sm font-normal capitalize",
+                                  complexView === view &&
+                                    "border-indigo-300 bg-indigo-50 text-indigo-700 hover:bg-indigo-100"
+                                )}
                               >
-                                {selectedStructureID}{" "}
-                                <ChevronDown className="ml-2 h-4 w-4" />
+                                {view}
                               </Button>
-                            </DialogTrigger>
-                            <DialogContent className="max-w-4xl w-full">
-                              {" "}
-                              <DialogHeader>
-                                <DialogTitle>Select a Structure</DialogTitle>
-                                <DialogDescription>
-                                  Choose from the available structures below.
-                                </DialogDescription>
-                              </DialogHeader>
-                              <div className="max-h-[60vh] overflow-y-auto pr-2 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                                {availableStructures.map(({ summary }) => (
-                                  <Card
-                                    key={summary.model_identifier}
-                                    className="border-indigo-200 mt-2"
-                                  >
-                                    <CardHeader>
-                                      <CardTitle className="text-lg font-semibold">
-                                        ID: {summary.model_identifier}
-                                      </CardTitle>
-                                      <CardDescription>
-                                        {summary.model_category}
-                                      </CardDescription>
-                                    </CardHeader>
-                                    <CardContent className="z-1000">
-                                      <p className="text-sm">
-                                        Method: {summary.experimental_method}
-                                      </p>
-                                      <p className="text-sm">
-                                        Resolution: {summary.resolution}
-                                      </p>
-                                    </CardContent>
-                                    <CardFooter className="flex justify-between items-center">
-                                      <Button
-                                        onClick={() =>
-                                          handleModelClick(summary.model_url)
-                                        }
-                                        className="bg-indigo-600 hover:bg-indigo-700"
-                                      >
-                                        Select
-                                      </Button>
-                                      <a
-                                        href={summary.model_page_url}
-                                        target="_blank"
-                                        rel="noopener noreferrer"
-                                        className="text-indigo-600 hover:text-indigo-800 flex items-center"
-                                      >
-                                        Model Page{" "}
-                                        <ExternalLink className="ml-1 h-4 w-4" />
-                                      </a>
-                                    </CardFooter>
-                                  </Card>
-                                ))}
-                              </div>
-                            </DialogContent>
-                          </Dialog>
-                        </CardTitle>
-                      </CardHeader>
-                      <CardContent className="h-[400px] md:h-[calc(60vh-4rem)]">
-                        <div className="relative w-full h-full">
-                          <ProteinViewer dataUrl={selectedStructureURL} />
-                        </div>
-                      </CardContent>
-                    </Card>
-
-                    {/* Protein Complex (moved from Column 2) */}
-                    <Card className="shadow-md overflow-hidden">
-                      <CardHeader className="pb-2">
-                        <CardTitle className="text-2xl font-semibold text-indigo-600">
-                          Protein Complex
-                        </CardTitle>
-                      </CardHeader>
-                      <CardContent className="h-[200px] md:h-[calc(40vh-8rem)]">
+                            ))}
+                          </div>
+                        )}
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="h-[320px] md:h-[calc(40vh-8rem)]">
+                      {proteinData.interactions.length > 0 &&
+                      complexView === "network" ? (
+                        <InteractionNetwork
+                          accession={proteinData.accession}
+                          label={proteinData.geneName ?? proteinData.accession}
+                          interactions={proteinData.interactions}
+                          onOpenAccession={handleOpenAccession}
+                        />
+                      ) : (
                         <ScrollArea className="h-full pr-4">
-                          {proteinData?.comments
-                            ?.filter((c: any) => c.commentType === "SUBUNIT")
-                            .map((comment: any, index: number) => (
+                          {proteinData.subunitTexts.length > 0 ? (
+                            proteinData.subunitTexts.map((text, index) => (
                               <div
                                 key={index}
                                 className="mb-4 pb-4 border-b border-indigo-100 last:border-b-0"
                               >
-                                <p
-                                  dangerouslySetInnerHTML={{
-                                    __html: renderLinks(comment.texts[0].value),
-                                  }}
+                                <CommentText
+                                  text={text.value}
+                                  onOpenAccession={handleOpenAccession}
                                 />
                               </div>
-                            )) || (
+                            ))
+                          ) : (
                             <p className="text-gray-500 italic">
                               No interaction data available
                             </p>
                           )}
                         </ScrollArea>
-                      </CardContent>
-                    </Card>
-                  </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <motion.div
+                    className="h-[200px] md:h-[calc(40vh-8rem)] bg-gray-200 rounded-lg"
+                    animate={{ opacity: [0.5, 1, 0.5] }}
+                    transition={{ duration: 1.5, repeat: Infinity, delay: 0.2 }}
+                  />
+                )}
+              </div>
 
-                  {/* Column 2 */}
-                  <div className="flex flex-col space-y-4 md:space-y-8">
+              {/* Column 2 */}
+              <div className="flex flex-col space-y-4 md:space-y-8">
+                {proteinData ? (
+                  <>
                     {/* Protein Description (moved from Column 1) */}
                     <Card className="flex-grow shadow-md overflow-hidden">
                       <CardHeader className="pb-2">
@@ -499,25 +752,19 @@ export default function App() {
                       <CardContent className="h-[300px] md:h-[calc(50vh-6rem)]">
                         <ScrollArea className="h-full pr-4">
                           <h3 className="text-lg font-semibold text-indigo-700 mb-2">
-                            {
-                              proteinData?.proteinDescription?.recommendedName
-                                ?.fullName?.value
-                            }
+                            {proteinData.proteinName}
                           </h3>
                           <div className="space-y-4">
                             <div>
                               <h4 className="font-medium text-indigo-600 mb-1">
                                 Function:
                               </h4>
-                              <p
-                                dangerouslySetInnerHTML={{
-                                  __html: renderLinks(
-                                    proteinData?.comments?.find(
-                                      (c: any) => c.commentType === "FUNCTION"
-                                    )?.texts[0]?.value ||
-                                      "No function data available"
-                                  ),
-                                }}
+                              <CommentText
+                                text={
+                                  proteinData.functionTexts[0]?.value ||
+                                  "No function data available"
+                                }
+                                onOpenAccession={handleOpenAccession}
                               />
                             </div>
                             <div>
@@ -525,7 +772,7 @@ export default function App() {
                                 Sequence Length:
                               </h4>
                               <p>
-                                {proteinData?.sequence?.length ||
+                                {proteinData.sequence?.length ||
                                   "No sequence data available"}
                               </p>
                             </div>
@@ -534,80 +781,23 @@ export default function App() {
                       </CardContent>
                     </Card>
 
-                    {/* Recent Research */}
+                    {/* Literature */}
                     <Card className="flex-grow shadow-md overflow-hidden">
                       <CardHeader className="pb-2">
                         <CardTitle className="text-2xl font-semibold text-indigo-600">
-                          Recent Research
+                          Literature
                         </CardTitle>
                       </CardHeader>
-                      <CardContent className="h-[300px] md:h-[calc(50vh-6rem)]">
-                        <ScrollArea className="h-full pr-4">
-                          {proteinData?.references
-                            ?.sort(
-                              (a: any, b: any) =>
-                                new Date(b.citation.publicationDate).getTime() -
-                                new Date(a.citation.publicationDate).getTime()
-                            )
-                            .slice(0, 15)
-                            .map((ref: any, index: number) => (
-                              <div key={index} className="mb-4">
-                                <p>
-                                  <strong className="text-indigo-600">
-                                    {ref.citation.title}
-                                  </strong>
-                                </p>
-                                <p className="text-sm text-gray-600">
-                                  {ref.citation.authors?.join(", ")} (
-                                  {ref.citation.publicationDate})
-                                </p>
-                                {ref.citation.citationCrossReferences?.map(
-                                  (crossRef: any, crossRefIndex: number) =>
-                                    crossRef.database === "PubMed" && (
-                                      <a
-                                        key={crossRefIndex}
-                                        href={`https://pubmed.ncbi.nlm.nih.gov/${crossRef.id}`}
-                                        target="_blank"
-                                        rel="noopener noreferrer"
-                                        className="text-indigo-600 hover:text-indigo-800 mr-2"
-                                      >
-                                        PubMed: {crossRef.id}
-                                        <ExternalLink className="inline-block ml-1 h-3 w-3" />
-                                      </a>
-                                    )
-                                )}
-                              </div>
-                            )) || "No recent research data available"}
-                        </ScrollArea>
+                      <CardContent className="h-[420px] md:h-[calc(50vh-6rem)]">
+                        <LiteraturePanel
+                          references={proteinData.references}
+                          accession={proteinData.accession}
+                        />
                       </CardContent>
                     </Card>
-                  </div>
-                </motion.div>
-              ) : (
-                <motion.div
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  exit={{ opacity: 0 }}
-                  className="flex-grow grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-8"
-                >
-                  {/* Wireframe placeholders */}
-                  <div className="flex flex-col space-y-4 md:space-y-8">
-                    <motion.div
-                      className="h-[400px] md:h-[calc(60vh-4rem)] bg-gray-200 rounded-lg"
-                      animate={{ opacity: [0.5, 1, 0.5] }}
-                      transition={{ duration: 1.5, repeat: Infinity }}
-                    />
-                    <motion.div
-                      className="h-[200px] md:h-[calc(40vh-8rem)] bg-gray-200 rounded-lg"
-                      animate={{ opacity: [0.5, 1, 0.5] }}
-                      transition={{
-                        duration: 1.5,
-                        repeat: Infinity,
-                        delay: 0.2,
-                      }}
-                    />
-                  </div>
-                  <div className="flex flex-col space-y-4 md:space-y-8">
+                  </>
+                ) : (
+                  <>
                     <motion.div
                       className="h-[300px] md:h-[calc(50vh-6rem)] bg-gray-200 rounded-lg"
                       animate={{ opacity: [0.5, 1, 0.5] }}
@@ -626,10 +816,56 @@ export default function App() {
                         delay: 0.6,
                       }}
                     />
-                  </div>
-                </motion.div>
+                  </>
+                )}
+              </div>
+
+              {proteinData && (
+                <>
+                  {/* Variants and diseases */}
+                  <Card className="shadow-md overflow-hidden md:col-span-2">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-2xl font-semibold text-indigo-600">
+                        Variants &amp; Disease
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <VariantPanel
+                        variants={variants}
+                        diseases={proteinData.diseases}
+                        selected={selectedVariants}
+                        onSelectedChange={setSelectedVariants}
+                      />
+                    </CardContent>
+                  </Card>
+
+                  {/* Sequence and features */}
+                  <Card className="shadow-md overflow-hidden md:col-span-2 mb-4">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-2xl font-semibold text-indigo-600">
+                        Sequence
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      {proteinData.sequence ? (
+                        <SequenceViewer
+                          sequence={proteinData.sequence.value}
+                          features={proteinData.features}
+                          selection={residueSelection}
+                          onSelectionChange={setResidueSelection}
+                          highlight={structureHover}
+                          onResidueHover={setSequenceHover}
+                        />
+                      ) : (
+                        <p className="text-gray-500 italic">
+                          No sequence data available
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+                </>
               )}
-            </AnimatePresence>
+            </motion.div>
           </>
         )}
       </div>
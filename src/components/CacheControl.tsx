@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { responseCache } from "@/lib/data-sources";
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function CacheControl() {
+  const [usage, setUsage] = useState<{ entries: number; bytes: number } | null>(
+    null
+  );
+
+  const refreshUsage = useCallback(() => {
+    responseCache
+      .usage()
+      .then(setUsage)
+      .catch(() => setUsage(null));
+  }, []);
+
+  useEffect(refreshUsage, [refreshUsage]);
+
+  const handleClear = async () => {
+    await responseCache.clear();
+    refreshUsage();
+  };
+
+  return (
+    <div className="flex items-center justify-between text-sm text-gray-500">
+      <span>
+        {usage
+          ? `${usage.entries} cached (${formatBytes(usage.bytes)})`
+          : "Offline cache unavailable"}
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleClear}
+        disabled={!usage?.entries}
+        className="text-indigo-600 hover:bg-indigo-50"
+      >
+        <Trash2 className="mr-1 h-4 w-4" />
+        Clear cache
+      </Button>
+    </div>
+  );
+}
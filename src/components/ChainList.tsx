@@ -0,0 +1,62 @@
+import type { ChainGroup } from "@/lib/chain-assignment";
+import { cn } from "@/lib/utils";
+
+interface ChainListProps {
+  chains: ChainGroup[];
+  // Opens a partner protein's own entry
+  onOpenAccession: (accession: string) => void;
+  className?: string;
+}
+
+const chainLabel = (chainIds: string[]) =>
+  `${chainIds.length > 1 ? "Chains" : "Chain"} ${chainIds.join(", ")}`;
+
+// Which chains of a complex are the queried protein and which are its
+// partners (shown faded in the viewer); nothing for single-protein models
+export function ChainList({
+  chains,
+  onOpenAccession,
+  className,
+}: ChainListProps) {
+  if (chains.length < 2) return null;
+
+  return (
+    <div
+      className={cn(
+        "max-w-xs rounded-md bg-white/90 px-3 py-2 text-xs text-gray-700 shadow",
+        className
+      )}
+    >
+      <ul className="flex flex-col gap-1">
+        {chains.map(({ chainIds, accession, description, queried }) => (
+          <li
+            key={chainIds.join(",")}
+            className={cn(!queried && "text-gray-500")}
+          >
+            <span className={cn(queried && "font-medium text-indigo-700")}>
+              {chainLabel(chainIds)}
+            </span>
+            {": "}
+            {accession && !queried ? (
+              <button
+                type="button"
+                onClick={() => onOpenAccession(accession)}
+                title={`Open ${accession}`}
+                className="font-medium text-indigo-600 hover:underline"
+              >
+                {accession}
+              </button>
+            ) : (
+              accession
+            )}
+            {description && (
+              <span className="block truncate" title={description}>
+                {description}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import {
+  ANNOTATION_CATEGORIES,
+  ColorByMode,
+  selectedCategories,
+  UNANNOTATED_COLOR,
+} from "@/lib/annotation-coloring";
+import { PLDDT_BANDS } from "@/lib/confidence";
+import { cn } from "@/lib/utils";
+
+interface ColorBySelectProps {
+  value: ColorByMode;
+  onChange: (mode: ColorByMode) => void;
+  // Feature count per category; empty categories can't be picked
+  counts: Map<string, number>;
+  // Predicted models are colored by confidence unless told otherwise
+  predicted?: boolean;
+}
+
+export function ColorBySelect({
+  value,
+  onChange,
+  counts,
+  predicted = false,
+}: ColorBySelectProps) {
+  return (
+    <select
+      aria-label="Color by"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="h-9 rounded-md border border-input bg-background px-2 text-sm font-normal text-gray-700"
+    >
+      <option value="default">
+        {predicted ? "Model confidence" : "Default colors"}
+      </option>
+      <option value="all">All annotations</option>
+      {ANNOTATION_CATEGORIES.map(({ id, label }) => (
+        <option key={id} value={id} disabled={!counts.get(id)}>
+          {label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+function ColorLegend({
+  title,
+  entries,
+  className,
+}: {
+  title?: string;
+  entries: LegendEntry[];
+  className?: string;
+}) {
+  return (
+    <div
+      className={cn(
+        "rounded-md bg-white/90 px-3 py-2 text-xs text-gray-700 shadow",
+        className
+      )}
+    >
+      {title && <p className="mb-1 font-medium">{title}</p>}
+      <ul className="flex flex-col gap-1">
+        {entries.map(({ label, color }) => (
+          <li key={label} className="flex items-center gap-2">
+            <span
+              className="h-3 w-3 rounded-sm"
+              style={{ backgroundColor: color }}
+            />
+            {label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// The AlphaFold DB confidence bands; `score` names the model's confidence
+// measure, e.g. pLDDT
+export function ConfidenceLegend({
+  score,
+  className,
+}: {
+  score: string;
+  className?: string;
+}) {
+  return (
+    <ColorLegend
+      title={`Model confidence (${score})`}
+      entries={PLDDT_BANDS}
+      className={className}
+    />
+  );
+}
+
+interface AnnotationLegendProps {
+  mode: ColorByMode;
+  counts: Map<string, number>;
+  className?: string;
+}
+
+export function AnnotationLegend({
+  mode,
+  counts,
+  className,
+}: AnnotationLegendProps) {
+  const categories = selectedCategories(mode);
+  if (categories.length === 0) return null;
+  const entries = [
+    ...categories.map(({ id, label, color }) => ({
+      label: `${label} (${counts.get(id) ?? 0})`,
+      color,
+    })),
+    { label: "Not annotated", color: UNANNOTATED_COLOR },
+  ];
+  return <ColorLegend entries={entries} className={className} />;
+}
@@ -0,0 +1,86 @@
+import { Fragment } from "react";
+import { ExternalLink } from "lucide-react";
+import { tokenizeCommentText } from "@/lib/comment-text";
+import { describeEvidence } from "@/lib/evidence";
+import { cn } from "@/lib/utils";
+
+interface CommentTextProps {
+  text: string;
+  // Called for UniProtKB cross-references, which open inside the app
+  onOpenAccession?: (accession: string) => void;
+  className?: string;
+}
+
+const LINK_CLASS = "text-indigo-600 hover:text-indigo-800";
+
+function WebLink({ href, label }: { href: string; label: string }) {
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={LINK_CLASS}
+    >
+      {label}
+      <ExternalLink className="inline-block ml-1 h-3 w-3 align-text-bottom" />
+    </a>
+  );
+}
+
+// UniProt comment text with its references turned into links
+export function CommentText({
+  text,
+  onOpenAccession,
+  className,
+}: CommentTextProps) {
+  return (
+    <p className={className}>
+      {tokenizeCommentText(text).map((token, i) => {
+        switch (token.type) {
+          case "text":
+            return <Fragment key={i}>{token.value}</Fragment>;
+          case "pubmed":
+            return (
+              <Fragment key={i}>
+                {token.ids.map((id, j) => (
+                  <Fragment key={id}>
+                    {j > 0 && ", "}
+                    <WebLink
+                      href={`https://pubmed.ncbi.nlm.nih.gov/${id}`}
+                      label={`PubMed:${id}`}
+                    />
+                  </Fragment>
+                ))}
+              </Fragment>
+            );
+          case "evidence":
+            return (
+              <sup
+                key={i}
+                title={token.evidences.map(describeEvidence).join("\n")}
+                className="ml-0.5 cursor-help text-gray-500"
+              >
+                [{token.evidences.length}]
+              </sup>
+            );
+          case "uniprot":
+            return onOpenAccession ? (
+              <button
+                key={i}
+                type="button"
+                onClick={() => onOpenAccession(token.accession)}
+                title={`Open ${token.accession}`}
+                className={cn(LINK_CLASS, "hover:underline")}
+              >
+                UniProtKB:{token.accession}
+              </button>
+            ) : (
+              <Fragment key={i}>UniProtKB:{token.accession}</Fragment>
+            );
+          case "link":
+            return <WebLink key={i} href={token.href} label={token.label} />;
+        }
+      })}
+    </p>
+  );
+}
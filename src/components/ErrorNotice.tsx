@@ -0,0 +1,77 @@
+import { AlertTriangle, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AppError, ERROR_TITLES, isTransient } from "@/lib/errors";
+import { cn } from "@/lib/utils";
+
+interface ErrorNoticeProps {
+  error: unknown;
+  onRetry?: () => void;
+  onOpenAccession?: (accession: string) => void;
+  className?: string;
+}
+
+// Inline error for a single card, so one failing source doesn't take the
+// rest of the page down with it.
+export function ErrorNotice({
+  error,
+  onRetry,
+  onOpenAccession,
+  className,
+}: ErrorNoticeProps) {
+  const title =
+    error instanceof AppError
+      ? ERROR_TITLES[error.kind]
+      : "Something went wrong";
+  const message =
+    error instanceof Error ? error.message : "An unknown error occurred";
+  const replacedBy =
+    error instanceof AppError ? error.details.replacedBy ?? [] : [];
+  // Retrying won't bring back a missing or obsolete entry
+  const canRetry =
+    onRetry &&
+    (!(error instanceof AppError) ||
+      isTransient(error) ||
+      error.kind === "malformed-response");
+
+  return (
+    <div
+      role="alert"
+      className={cn(
+        "flex flex-col items-center justify-center gap-2 text-center",
+        className
+      )}
+    >
+      <AlertTriangle className="h-6 w-6 text-red-500" />
+      <p className="font-medium text-red-600">{title}</p>
+      <p className="text-sm text-gray-600">{message}</p>
+      {replacedBy.length > 0 && onOpenAccession && (
+        <p className="text-sm text-gray-600">
+          Replaced by{" "}
+          {replacedBy.map((accession, index) => (
+            <span key={accession}>
+              {index > 0 && ", "}
+              <button
+                type="button"
+                onClick={() => onOpenAccession(accession)}
+                className="font-medium text-indigo-600 hover:text-indigo-800"
+              >
+                {accession}
+              </button>
+            </span>
+          ))}
+        </p>
+      )}
+      {canRetry && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onRetry}
+          className="text-indigo-600 hover:bg-indigo-50"
+        >
+          <RotateCw className="mr-1 h-4 w-4" />
+          Try again
+        </Button>
+      )}
+    </div>
+  );
+}
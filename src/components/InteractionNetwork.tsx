@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { baseAccession } from "@/lib/identifiers";
+import type { UniProtInteraction } from "@/lib/uniprot";
+import { cn } from "@/lib/utils";
+
+interface InteractionNetworkProps {
+  accession: string;
+  // Label of the center node, usually the gene name
+  label: string;
+  interactions: UniProtInteraction[];
+  // Opens a partner protein in the explorer
+  onOpenAccession: (accession: string) => void;
+}
+
+// Beyond this the labels overlap; the best-supported partners are kept
+const MAX_PARTNERS = 24;
+const SIZE = 400;
+const CENTER = SIZE / 2;
+const RADIUS = 150;
+const NODE_RADIUS = 22;
+
+const edgeWidth = (experiments: number) =>
+  Math.min(1 + Math.log2(experiments), 6);
+
+const describe = ({
+  accession,
+  geneName,
+  experiments,
+  organismDiffer,
+}: UniProtInteraction) =>
+  `${geneName ?? accession} (${accession}): ${experiments} ${
+    experiments === 1 ? "experiment" : "experiments"
+  }${organismDiffer ? ", different organism" : ""}`;
+
+// Binary interactions from the INTERACTION comment drawn as a star around
+// the queried protein, each edge labeled with its number of experiments.
+// Self-interactions (homo-oligomers) are a loop on the center node.
+export function InteractionNetwork({
+  accession,
+  label,
+  interactions,
+  onOpenAccession,
+}: InteractionNetworkProps) {
+  const [hovered, setHovered] = useState<string | null>(null);
+  // An interaction with one of the entry's own isoforms ("P04637-2" on
+  // P04637) is a self-interaction too
+  const isSelf = (interaction: UniProtInteraction) =>
+    baseAccession(interaction.accession) === baseAccession(accession);
+  const self = interactions.find(isSelf);
+  // Isoforms of the entry are listed separately and may share partners;
+  // each partner appears once, with its best-supported interaction
+  const byPartner = new Map<string, UniProtInteraction>();
+  for (const interaction of interactions) {
+    if (isSelf(interaction)) continue;
+    const known = byPartner.get(interaction.accession);
+    if (!known || interaction.experiments > known.experiments)
+      byPartner.set(interaction.accession, interaction);
+  }
+  const partners = Array.from(byPartner.values()).sort(
+    (a, b) => b.experiments - a.experiments
+  );
+  const shown = partners.slice(0, MAX_PARTNERS);
+  const nodes = shown.map((interaction, i) => {
+    const angle = (2 * Math.PI * i) / shown.length - Math.PI / 2;
+    return {
+      interaction,
+      x: CENTER + RADIUS * Math.cos(angle),
+      y: CENTER + RADIUS * Math.sin(angle),
+    };
+  });
+
+  return (
+    <div className="flex h-full flex-col">
+      <svg
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="min-h-0 w-full flex-grow"
+        role="img"
+        aria-label={`Interaction partners of ${label}`}
+      >
+        {nodes.map(({ interaction, x, y }) => (
+          <g
+            key={interaction.accession}
+            className={cn(
+              "transition-opacity",
+              hovered && hovered !== interaction.accession && "opacity-30"
+            )}
+          >
+            <line
+              x1={CENTER}
+              y1={CENTER}
+              x2={x}
+              y2={y}
+              stroke="#a5b4fc"
+              strokeWidth={edgeWidth(interaction.experiments)}
+              strokeDasharray={interaction.organismDiffer ? "4 3" : undefined}
+            />
+            <text
+              x={(CENTER + x) / 2}
+              y={(CENTER + y) / 2}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              className="fill-gray-600 text-[10px]"
+              stroke="white"
+              strokeWidth={3}
+              paintOrder="stroke"
+            >
+              {interaction.experiments}
+            </text>
+          </g>
+        ))}
+
+        {self && (
+          <g>
+            <title>{describe(self)}</title>
+            <circle
+              cx={CENTER}
+              cy={CENTER - NODE_RADIUS - 10}
+              r={14}
+              fill="none"
+              stroke="#a5b4fc"
+              strokeWidth={edgeWidth(self.experiments)}
+            />
+            <text
+              x={CENTER}
+              y={CENTER - NODE_RADIUS - 30}
+              textAnchor="middle"
+              className="fill-gray-600 text-[10px]"
+            >
+              {self.experiments}
+            </text>
+          </g>
+        )}
+        <circle cx={CENTER} cy={CENTER} r={NODE_RADIUS} fill="#4f46e5" />
+        <text
+          x={CENTER}
+          y={CENTER}
+          textAnchor="middle"
+          dominantBaseline="middle"
+          className="fill-white text-[11px] font-semibold"
+        >
+          {label}
+        </text>
+
+        {nodes.map(({ interaction, x, y }) => (
+          <g
+            key={interaction.accession}
+            role="button"
+            tabIndex={0}
+            onClick={() => onOpenAccession(interaction.accession)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") onOpenAccession(interaction.accession);
+            }}
+            onPointerEnter={() => setHovered(interaction.accession)}
+            onPointerLeave={() => setHovered(null)}
+            className={cn(
+              "cursor-pointer outline-none transition-opacity",
+              hovered && hovered !== interaction.accession && "opacity-30"
+            )}
+          >
+            <title>{describe(interaction)}</title>
+            <circle
+              cx={x}
+              cy={y}
+              r={NODE_RADIUS - 4}
+              fill={hovered === interaction.accession ? "#e0e7ff" : "white"}
+              stroke="#6366f1"
+              strokeWidth={1.5}
+            />
+            <text
+              x={x}
+              y={y}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              className="fill-indigo-700 text-[9px] font-medium"
+            >
+              {interaction.geneName ?? interaction.accession}
+            </text>
+          </g>
+        ))}
+      </svg>
+      <p className="text-xs text-gray-500">
+        {partners.length > shown.length
+          ? `The ${shown.length} best-supported of ${partners.length} partners. `
+          : ""}
+        Edges are labeled with the number of experiments; dashed partners are
+        from another organism. Click a partner to open it.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useState } from "react";
+import type { LoadedModel } from "@/components/ProteinViewer";
+import { Input } from "@/components/ui/input";
+import type { UniProtFeature } from "@/lib/uniprot";
+import { cn } from "@/lib/utils";
+import type { ModelLigand, ViewerController } from "@/lib/viewer";
+
+interface LigandPanelProps {
+  model: LoadedModel;
+  viewer: ViewerController | null;
+  sequence: string;
+  features: UniProtFeature[];
+  // Called with the UniProt position of a clicked contact residue
+  onSelectResidue: (position: number) => void;
+}
+
+const BINDING_SITE_TYPES = ["Binding site", "Active site"];
+const DEFAULT_RADIUS = 5;
+
+const ligandKey = ({ chainId, seqId, compId }: ModelLigand) =>
+  `${chainId}:${seqId}:${compId}`;
+
+function bindingSitesAt(features: UniProtFeature[], position: number) {
+  return features.filter(
+    (feature) =>
+      BINDING_SITE_TYPES.includes(feature.type) &&
+      feature.start <= position &&
+      position <= feature.end
+  );
+}
+
+// Non-polymer components of the loaded structure. Picking one focuses it in
+// the viewer and lists the protein residues around it, next to the UniProt
+// binding-site annotations at the same positions.
+export function LigandPanel({
+  model,
+  viewer,
+  sequence,
+  features,
+  onSelectResidue,
+}: LigandPanelProps) {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [radius, setRadius] = useState(DEFAULT_RADIUS);
+  const selected =
+    model.ligands.find((ligand) => ligandKey(ligand) === selectedKey) ?? null;
+
+  // Ligands are per structure
+  useEffect(() => setSelectedKey(null), [model]);
+
+  const contacts = useMemo(() => {
+    if (!viewer || !selected) return [];
+    return viewer.residuesNear(selected, radius).map((residue) => {
+      const position = model.mapping.toUniProt(residue);
+      return {
+        residue,
+        position,
+        sites: position === null ? [] : bindingSitesAt(features, position),
+      };
+    });
+  }, [viewer, selected, radius, model, features]);
+  const annotated = contacts.filter(({ sites }) => sites.length > 0).length;
+
+  if (model.ligands.length === 0) {
+    return (
+      <p className="text-gray-500 italic">
+        {model.structure.id} has no ligands, ions or cofactors
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap gap-2">
+        {model.ligands.map((ligand) => (
+          <button
+            key={ligandKey(ligand)}
+            type="button"
+            onClick={() => {
+              setSelectedKey(ligandKey(ligand));
+              viewer?.focusLigand(ligand);
+            }}
+            title={ligand.name ?? undefined}
+            className={cn(
+              "rounded-full border px-3 py-1 text-sm",
+              ligand === selected
+                ? "border-indigo-500 bg-indigo-100 text-indigo-800"
+                : "border-indigo-200 text-indigo-700 hover:bg-indigo-50"
+            )}
+          >
+            <span className="font-medium">{ligand.compId}</span>{" "}
+            <span className="text-gray-500">
+              {ligand.chainId} {ligand.seqId}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            <span className="font-medium text-gray-800">
+              {selected.name ?? selected.compId}
+            </span>
+            <span className="ml-auto">Residues within</span>
+            <Input
+              type="number"
+              min={1}
+              max={15}
+              step={0.5}
+              value={radius}
+              onChange={(e) =>
+                setRadius(
+                  Math.min(Math.max(Number(e.target.value) || 1, 1), 15)
+                )
+              }
+              aria-label="Distance in Å"
+              className="h-8 w-20"
+            />
+            <span>Å</span>
+          </div>
+          <p className="text-sm text-gray-600">
+            {contacts.length} residues in contact, {annotated} annotated as
+            binding or active sites in UniProt
+          </p>
+          <div className="max-h-72 overflow-auto rounded-md border border-indigo-100">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-indigo-50 text-left text-indigo-700">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Residue</th>
+                  <th className="px-3 py-2 font-medium">UniProt</th>
+                  <th className="px-3 py-2 font-medium">Distance</th>
+                  <th className="px-3 py-2 font-medium">UniProt sites</th>
+                </tr>
+              </thead>
+              <tbody>
+                {contacts.map(({ residue, position, sites }) => (
+                  <tr
+                    key={`${residue.chainId}:${residue.seqId}`}
+                    onClick={() =>
+                      position !== null && onSelectResidue(position)
+                    }
+                    className={cn(
+                      "border-t border-indigo-50",
+                      position !== null && "cursor-pointer hover:bg-indigo-50",
+                      sites.length > 0 && "bg-amber-50"
+                    )}
+                  >
+                    <td className="px-3 py-1.5">
+                      {residue.compId} {residue.chainId}
+                      {residue.seqId}
+                    </td>
+                    <td className="px-3 py-1.5">
+                      {position === null
+                        ? "–"
+                        : `${sequence[position - 1] ?? ""}${position}`}
+                    </td>
+                    <td className="px-3 py-1.5">
+                      {residue.distance.toFixed(1)} Å
+                    </td>
+                    <td className="px-3 py-1.5">
+                      {sites
+                        .map(
+                          (site) =>
+                            site.ligand ?? (site.description || site.type)
+                        )
+                        .join(", ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  ExternalLink,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  EMPTY_LITERATURE_FILTER,
+  filterReferences,
+  LiteratureFilter,
+  pubmedId,
+  REFERENCE_SCOPES,
+  ReferenceScope,
+  sortReferences,
+  sourceCategories,
+  toBibTeX,
+  toRIS,
+} from "@/lib/literature";
+import type { UniProtReference } from "@/lib/uniprot";
+
+interface LiteraturePanelProps {
+  references: UniProtReference[];
+  // Used to name exported files
+  accession: string;
+}
+
+const PAGE_SIZE = 10;
+
+const SELECT_CLASS =
+  "h-9 rounded-md border border-input bg-background px-2 text-sm";
+
+function download(text: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+// Every reference of the entry, newest first, with filters, pages and
+// BibTeX/RIS export of the ticked ones
+export function LiteraturePanel({
+  references,
+  accession,
+}: LiteraturePanelProps) {
+  const [filter, setFilter] = useState<LiteratureFilter>(
+    EMPTY_LITERATURE_FILTER
+  );
+  const [page, setPage] = useState(0);
+  // Reference numbers, which are unique within an entry
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    setFilter(EMPTY_LITERATURE_FILTER);
+    setSelected(new Set());
+  }, [references]);
+  useEffect(() => setPage(0), [references, filter]);
+
+  const sorted = useMemo(() => sortReferences(references), [references]);
+  const rows = useMemo(
+    () => filterReferences(sorted, filter),
+    [sorted, filter]
+  );
+  const categories = useMemo(() => sourceCategories(references), [references]);
+  const pageCount = Math.max(Math.ceil(rows.length / PAGE_SIZE), 1);
+  const pageRows = rows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+  const chosen = sorted.filter((reference) => selected.has(reference.number));
+
+  const updateFilter = (change: Partial<LiteratureFilter>) =>
+    setFilter((current) => ({ ...current, ...change }));
+  const yearOrNull = (value: string) =>
+    value === "" || Number.isNaN(Number(value)) ? null : Number(value);
+  const toggle = (numbers: number[], on: boolean) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      numbers.forEach((number) =>
+        on ? next.add(number) : next.delete(number)
+      );
+      return next;
+    });
+  const pageSelected =
+    pageRows.length > 0 &&
+    pageRows.every((reference) => selected.has(reference.number));
+
+  if (references.length === 0) {
+    return <p className="text-gray-500 italic">No references available</p>;
+  }
+
+  return (
+    <div className="flex h-full flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={filter.text}
+          onChange={(e) => updateFilter({ text: e.target.value })}
+          placeholder="Search titles"
+          className="h-9 w-48"
+        />
+        <select
+          aria-label="Reference scope"
+          value={filter.scope ?? ""}
+          onChange={(e) =>
+            updateFilter({
+              scope: (e.target.value as ReferenceScope) || null,
+            })
+          }
+          className={SELECT_CLASS}
+        >
+          <option value="">Any scope</option>
+          {REFERENCE_SCOPES.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {categories.length > 0 && (
+          <select
+            aria-label="Source category"
+            value={filter.category ?? ""}
+            onChange={(e) => updateFilter({ category: e.target.value || null })}
+            className={SELECT_CLASS}
+          >
+            <option value="">All categories</option>
+            {categories.map((category) => (
+              <option key={category} value={category}>
+                {category}
+              </option>
+            ))}
+          </select>
+        )}
+        <Input
+          type="number"
+          value={filter.fromYear ?? ""}
+          onChange={(e) =>
+            updateFilter({ fromYear: yearOrNull(e.target.value) })
+          }
+          placeholder="From"
+          aria-label="From year"
+          className="h-9 w-20"
+        />
+        <Input
+          type="number"
+          value={filter.toYear ?? ""}
+          onChange={(e) => updateFilter({ toYear: yearOrNull(e.target.value) })}
+          placeholder="To"
+          aria-label="To year"
+          className="h-9 w-20"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={pageSelected}
+            onChange={(e) =>
+              toggle(
+                pageRows.map((reference) => reference.number),
+                e.target.checked
+              )
+            }
+          />
+          Page
+        </label>
+        <span>
+          {selected.size > 0 ? `${selected.size} selected · ` : ""}
+          {rows.length} of {references.length} references
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          {(
+            [
+              ["BibTeX", () => toBibTeX(chosen), "bib", "application/x-bibtex"],
+              [
+                "RIS",
+                () => toRIS(chosen),
+                "ris",
+                "application/x-research-info-systems",
+              ],
+            ] as const
+          ).map(([label, format, extension, type]) => (
+            <Button
+              key={label}
+              variant="outline"
+              size="sm"
+              disabled={chosen.length === 0}
+              onClick={() =>
+                download(format(), `${accession}-references.${extension}`, type)
+              }
+              className="h-8 px-2"
+            >
+              <Download className="mr-1 h-4 w-4" />
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <ul className="min-h-0 flex-grow overflow-auto pr-2">
+        {pageRows.map((reference) => {
+          const id = pubmedId(reference);
+          return (
+            <li
+              key={reference.number}
+              className="mb-3 flex gap-2 border-b border-indigo-50 pb-3 last:border-b-0"
+            >
+              <input
+                type="checkbox"
+                aria-label="Select reference"
+                checked={selected.has(reference.number)}
+                onChange={(e) => toggle([reference.number], e.target.checked)}
+                className="mt-1"
+              />
+              <div className="min-w-0">
+                <p className="font-semibold text-indigo-600">
+                  {reference.title ?? "Untitled"}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {reference.authors.join(", ")}
+                  {reference.journal && ` · ${reference.journal}`}
+                  {` (${reference.publicationDate ?? "undated"})`}
+                </p>
+                {reference.positions.length > 0 && (
+                  <p className="text-xs text-gray-500">
+                    {reference.positions.join("; ")}
+                  </p>
+                )}
+                {id && (
+                  <a
+                    href={`https://pubmed.ncbi.nlm.nih.gov/${id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-indigo-600 hover:text-indigo-800"
+                  >
+                    PubMed: {id}
+                    <ExternalLink className="inline-block ml-1 h-3 w-3" />
+                  </a>
+                )}
+              </div>
+            </li>
+          );
+        })}
+        {pageRows.length === 0 && (
+          <li className="text-gray-500 italic">No references match</li>
+        )}
+      </ul>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-2 text-sm text-gray-600">
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Previous page"
+            disabled={page === 0}
+            onClick={() => setPage(page - 1)}
+            className="h-8 w-8 text-indigo-600"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="tabular-nums">
+            Page {page + 1} of {pageCount}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Next page"
+            disabled={page >= pageCount - 1}
+            onClick={() => setPage(page + 1)}
+            className="h-8 w-8 text-indigo-600"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { AlertTriangle, CheckCircle2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  checkMutation,
+  featuresAt,
+  formatMutation,
+  MutationQuery,
+  variantsAt,
+} from "@/lib/mutations";
+import type { UniProtFeature } from "@/lib/uniprot";
+import { cn } from "@/lib/utils";
+import type { VariantRow } from "@/lib/variants";
+
+interface MutationPanelProps {
+  query: MutationQuery;
+  accession: string;
+  sequence: string;
+  features: UniProtFeature[];
+  variants: VariantRow[];
+  onClose: () => void;
+}
+
+const range = ({ start, end }: { start: number; end: number }) =>
+  start === end ? `${start}` : `${start}-${end}`;
+
+// Result of a mutation search such as "TP53 R175H": whether the wild-type
+// residue agrees with the entry's sequence, what UniProt annotates at the
+// position and which natural variants are known there
+export function MutationPanel({
+  query,
+  accession,
+  sequence,
+  features,
+  variants,
+  onClose,
+}: MutationPanelProps) {
+  const { mutation } = query;
+  const check = checkMutation(mutation, sequence);
+  const overlapping = featuresAt(features, mutation.position);
+  const known = variantsAt(variants, mutation.position);
+  const notation = formatMutation(mutation);
+
+  const warnings = [
+    check.status === "mismatch" &&
+      `Position ${mutation.position} of ${accession} is ${check.actual}, not ${mutation.original}. The mutation may be numbered on another isoform or transcript.`,
+    check.status === "out-of-range" &&
+      `${accession} has only ${check.length} residues, so position ${mutation.position} does not exist. The mutation may be numbered on a longer isoform.`,
+  ].filter((warning): warning is string => Boolean(warning));
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <div className="flex items-start gap-2">
+        {warnings.length === 0 ? (
+          <p className="flex items-center gap-2 text-emerald-700">
+            <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+            {mutation.original} at position {mutation.position} matches the
+            sequence of {accession}
+          </p>
+        ) : (
+          <ul className="flex flex-col gap-1 text-amber-700">
+            {warnings.map((warning) => (
+              <li key={warning} className="flex items-start gap-2">
+                <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                {warning}
+              </li>
+            ))}
+          </ul>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Dismiss"
+          onClick={onClose}
+          className="ml-auto h-8 w-8 flex-shrink-0 text-indigo-600 hover:bg-indigo-50"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {check.status !== "out-of-range" && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div>
+            <h4 className="mb-1 font-medium text-indigo-600">
+              Known variants at {mutation.position}
+            </h4>
+            {known.length > 0 ? (
+              <ul className="flex flex-col gap-1">
+                {known.map((variant) => (
+                  <li
+                    key={variant.key}
+                    className={cn(
+                      variant.change === notation && "font-semibold"
+                    )}
+                  >
+                    <span className="font-mono">{variant.change}</span>
+                    {variant.diseases.length > 0 &&
+                      ` (${variant.diseases
+                        .map(({ acronym, name }) => acronym ?? name)
+                        .join(", ")})`}
+                    {variant.feature.description && (
+                      <span className="block text-xs font-normal text-gray-500">
+                        {variant.feature.description}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500 italic">None in UniProt</p>
+            )}
+          </div>
+          <div>
+            <h4 className="mb-1 font-medium text-indigo-600">
+              Annotations covering {mutation.position}
+            </h4>
+            {overlapping.length > 0 ? (
+              <ul className="flex flex-col gap-1">
+                {overlapping.map((feature, i) => (
+                  <li key={i}>
+                    <span className="font-medium">{feature.type}</span>{" "}
+                    <span className="text-gray-500">{range(feature)}</span>
+                    {(feature.description || feature.ligand) &&
+                      ` · ${[feature.description, feature.ligand]
+                        .filter(Boolean)
+                        .join(" · ")}`}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500 italic">None</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { MouseEvent, useEffect, useRef, useState } from "react";
+import type { PredictedAlignedError } from "@/lib/confidence";
+import type { ResidueRegion } from "@/lib/uniprot";
+
+interface PaeHeatmapProps {
+  pae: PredictedAlignedError;
+  // Clicking a cell picks the residues between its two positions
+  onSelectionChange?: (selection: ResidueRegion) => void;
+}
+
+// Dark green for confidently placed pairs fading to white, as on AlphaFold DB
+const LOW_ERROR = [11, 94, 42];
+const HIGH_ERROR = [255, 255, 255];
+
+function errorColor(value: number, max: number) {
+  const t = Math.min(Math.max(value / max, 0), 1);
+  return LOW_ERROR.map((low, i) => Math.round(low + (HIGH_ERROR[i] - low) * t));
+}
+
+interface HoveredCell {
+  scored: number;
+  aligned: number;
+  error: number;
+}
+
+// Predicted aligned error drawn one pixel per residue pair on a canvas and
+// scaled up with CSS; a 2,700-residue model is 7 million cells, which is
+// far too many for SVG.
+export function PaeHeatmap({ pae, onSelectionChange }: PaeHeatmapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hovered, setHovered] = useState<HoveredCell | null>(null);
+  const { size, values, max } = pae;
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context || size === 0) return;
+    const image = context.createImageData(size, size);
+    values.forEach((value, i) => {
+      const [r, g, b] = errorColor(value, max);
+      image.data.set([r, g, b, 255], i * 4);
+    });
+    context.putImageData(image, 0, 0);
+  }, [size, values, max]);
+
+  const cellAt = (event: MouseEvent<HTMLCanvasElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const column = Math.floor(
+      ((event.clientX - bounds.left) / bounds.width) * size
+    );
+    const row = Math.floor(
+      ((event.clientY - bounds.top) / bounds.height) * size
+    );
+    if (column < 0 || row < 0 || column >= size || row >= size) return null;
+    return {
+      scored: column + 1,
+      aligned: row + 1,
+      error: values[row * size + column],
+    };
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-start gap-2">
+        <span className="self-center -rotate-180 text-xs text-gray-500 [writing-mode:vertical-rl]">
+          Aligned residue
+        </span>
+        <div className="flex-grow">
+          <canvas
+            ref={canvasRef}
+            width={size}
+            height={size}
+            onPointerMove={(e) => setHovered(cellAt(e))}
+            onPointerLeave={() => setHovered(null)}
+            onClick={(e) => {
+              const cell = cellAt(e);
+              if (cell && onSelectionChange) {
+                onSelectionChange({
+                  start: Math.min(cell.scored, cell.aligned),
+                  end: Math.max(cell.scored, cell.aligned),
+                });
+              }
+            }}
+            className="aspect-square w-full cursor-crosshair border border-gray-200"
+            style={{ imageRendering: "pixelated" }}
+          />
+          <div className="flex justify-between text-xs text-gray-500">
+            <span>1</span>
+            <span>Scored residue</span>
+            <span>{size}</span>
+          </div>
+        </div>
+      </div>
+      <div className="flex items-center gap-2 text-xs text-gray-600">
+        <span>0 Å</span>
+        <div
+          className="h-2 flex-grow rounded-sm border border-gray-200"
+          style={{
+            background: `linear-gradient(to right, rgb(${LOW_ERROR}), rgb(${HIGH_ERROR}))`,
+          }}
+        />
+        <span>{max} Å</span>
+      </div>
+      <p className="h-4 text-xs text-gray-600">
+        {hovered
+          ? `Residue ${hovered.scored} aligned on ${hovered.aligned}: ` +
+            `${hovered.error.toFixed(1)} Å expected error`
+          : "Hover for values, click to select the residues in between"}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import {
+  forwardRef,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
+import { ErrorNotice } from "@/components/ErrorNotice";
+import type { StructureSummary } from "@/lib/beacons";
+import {
+  assignChains,
+  ChainGroup,
+  queriedChainIds,
+} from "@/lib/chain-assignment";
+import { dataSource } from "@/lib/data-sources";
+import { isAbortError } from "@/lib/errors";
+import {
+  createResidueMapping,
+  ResidueMapping,
+  SequenceColoring,
+} from "@/lib/residue-mapping";
+import type { ResidueRegion } from "@/lib/uniprot";
+import { confidenceColoring } from "@/lib/confidence";
+import {
+  createViewerController,
+  DEFAULT_DISPLAY,
+  ModelLigand,
+  ViewerController,
+  ViewerDisplay,
+} from "@/lib/viewer";
+import "molstar/lib/mol-plugin-ui/skin/light.scss";
+
+// What the viewer found in a structure once it finished loading
+export interface LoadedModel {
+  structure: StructureSummary;
+  mapping: ResidueMapping;
+  // The queried protein's chains first, then any binding partners
+  chains: ChainGroup[];
+  ligands: ModelLigand[];
+}
+
+interface ProteinViewerProps {
+  structure: StructureSummary | null;
+  // The UniProt entry the structure is shown for; positions below are
+  // UniProt positions and are mapped onto the model's own numbering.
+  accession: string;
+  sequence: string;
+  selection?: ResidueRegion | null;
+  highlight?: ResidueRegion | null;
+  // Residues drawn as sticks on top, e.g. selected variants
+  marked?: ResidueRegion[];
+  // Painted over the default colors, e.g. UniProt annotations
+  coloring?: SequenceColoring | null;
+  display?: ViewerDisplay;
+  // Without a coloring, paint residues by the confidence in the B-factor
+  // column, for predicted models
+  confidence?: boolean;
+  onResidueHover?: (position: number | null) => void;
+  onResidueClick?: (position: number) => void;
+  // Called with null whenever a new structure starts loading
+  onModelLoaded?: (model: LoadedModel | null) => void;
+}
+
+const NO_MARKS: ResidueRegion[] = [];
+
+// Hosts a single Mol* plugin for its whole lifetime and loads `structure`
+// into it. The controller is exposed through the ref (null until the plugin
+// is ready) for snapshots and so on.
+export const ProteinViewer = forwardRef<
+  ViewerController | null,
+  ProteinViewerProps
+>(
+  (
+    {
+      structure,
+      accession,
+      sequence,
+      selection = null,
+      highlight = null,
+      marked = NO_MARKS,
+      coloring = null,
+      confidence = false,
+      display = DEFAULT_DISPLAY,
+      onResidueHover,
+      onResidueClick,
+      onModelLoaded,
+    },
+    ref
+  ) => {
+    const viewerRef = useRef<HTMLDivElement>(null);
+    const [controller, setController] = useState<ViewerController | null>(null);
+    const [mapping, setMapping] = useState<ResidueMapping | null>(null);
+    const [error, setError] = useState<unknown>(null);
+    const [attempt, setAttempt] = useState(0);
+    // Bumped to retry creating the plugin, e.g. after a WebGL failure
+    const [pluginAttempt, setPluginAttempt] = useState(0);
+    const callbacks = useRef({ onResidueHover, onResidueClick, onModelLoaded });
+    callbacks.current = { onResidueHover, onResidueClick, onModelLoaded };
+
+    useImperativeHandle(ref, () => controller as ViewerController, [
+      controller,
+    ]);
+
+    useEffect(() => {
+      if (!viewerRef.current) return;
+      // Each attempt gets its own element, so a retry doesn't mount into
+      // whatever a failed attempt left behind
+      const host = document.createElement("div");
+      host.style.width = "100%";
+      host.style.height = "100%";
+      host.style.position = "relative";
+      viewerRef.current.appendChild(host);
+      // createPluginUI is async, so the viewer may unmount before it resolves
+      let disposed = false;
+      let created: ViewerController | null = null;
+      setError(null);
+      createViewerController(host)
+        .then((instance) => {
+          if (disposed) {
+            instance.dispose();
+            return;
+          }
+          created = instance;
+          setController(instance);
+        })
+        .catch((error) => {
+          if (disposed) return;
+          console.error("Error creating viewer:", error);
+          setError(error);
+        });
+      return () => {
+        disposed = true;
+        created?.dispose();
+        host.remove();
+        setController(null);
+      };
+    }, [pluginAttempt]);
+
+    useEffect(() => {
+      if (!controller) return;
+      setError(null);
+      setMapping(null);
+      callbacks.current.onModelLoaded?.(null);
+      if (!structure) {
+        controller.clear().catch((error) => {
+          console.error("Error clearing viewer:", error);
+          setError(error);
+        });
+        return;
+      }
+      const abort = new AbortController();
+      dataSource
+        .fetchStructureFile(structure.url, { signal: abort.signal })
+        .then(async (data) => {
+          if (abort.signal.aborted) return;
+          const loaded = await controller.load({
+            data,
+            label: structure.url,
+            format: structure.format,
+          });
+          if (loaded && !abort.signal.aborted) {
+            const chains = assignChains(
+              structure,
+              accession,
+              controller.chains()
+            );
+            const mapping = createResidueMapping(
+              structure,
+              chains,
+              sequence,
+              controller.residues()
+            );
+            // In complexes, partner chains fade so the queried protein
+            // stands out
+            const queried = queriedChainIds(chains);
+            const partners = chains.some((group) => !group.queried);
+            await controller.emphasizeChains(
+              queried.length > 0 && partners ? queried : null
+            );
+            if (abort.signal.aborted) return;
+            setMapping(mapping);
+            callbacks.current.onModelLoaded?.({
+              structure,
+              mapping,
+              chains,
+              ligands: controller.ligands(),
+            });
+          }
+        })
+        .catch((error) => {
+          if (abort.signal.aborted || isAbortError(error)) return;
+          console.error("Error loading structure:", error);
+          setError(error);
+        });
+      return () => abort.abort();
+    }, [controller, structure, accession, sequence, attempt]);
+
+    useEffect(() => {
+      controller
+        ?.setDisplay(display)
+        .catch((error) => console.error("Error updating display:", error));
+    }, [controller, display]);
+
+    useEffect(() => {
+      if (!controller || !mapping) return;
+      controller.select(selection && mapping.toModel(selection));
+    }, [controller, mapping, selection]);
+
+    useEffect(() => {
+      if (!controller || !mapping) return;
+      controller.highlight(highlight && mapping.toModel(highlight));
+    }, [controller, mapping, highlight]);
+
+    useEffect(() => {
+      if (!controller || !mapping) return;
+      controller
+        .markResidues(
+          marked.flatMap((region) => {
+            const range = mapping.toModel(region);
+            return range ? [range] : [];
+          })
+        )
+        .catch((error) => console.error("Error marking residues:", error));
+    }, [controller, mapping, marked]);
+
+    useEffect(() => {
+      if (!controller || !mapping) return;
+      const residues = coloring
+        ? {
+            fallback: coloring.fallback,
+            ranges: coloring.regions.flatMap(({ region, color }) => {
+              const range = mapping.toModel(region);
+              return range ? [{ range, color }] : [];
+            }),
+          }
+        : confidence
+        ? confidenceColoring(controller.residues())
+        : null;
+      controller
+        .colorResidues(residues)
+        .catch((error) => console.error("Error coloring structure:", error));
+    }, [controller, mapping, coloring, confidence]);
+
+    useEffect(() => {
+      if (!controller || !mapping) return;
+      const stopHover = controller.onResidueHover((residue) =>
+        callbacks.current.onResidueHover?.(
+          residue && mapping.toUniProt(residue)
+        )
+      );
+      const stopClick = controller.onResidueClick((residue) => {
+        const position = residue && mapping.toUniProt(residue);
+        if (position !== null) callbacks.current.onResidueClick?.(position);
+      });
+      return () => {
+        stopHover();
+        stopClick();
+      };
+    }, [controller, mapping]);
+
+    return (
+      <div className="relative w-full h-full">
+        <div
+          ref={viewerRef}
+          style={{
+            width: "100%",
+            height: "100%",
+            position: "relative",
+            zIndex: 10,
+          }}
+        />
+        {error !== null && (
+          <ErrorNotice
+            error={error}
+            onRetry={() =>
+              controller
+                ? setAttempt((n) => n + 1)
+                : setPluginAttempt((n) => n + 1)
+            }
+            className="absolute inset-0 z-20 bg-white/90"
+          />
+        )}
+      </div>
+    );
+  }
+);
+ProteinViewer.displayName = "ProteinViewer";
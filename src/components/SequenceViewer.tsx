@@ -0,0 +1,430 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Maximize2, X, ZoomIn, ZoomOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { describeEvidence } from "@/lib/evidence";
+import {
+  describeVariant,
+  layoutTracks,
+  TrackDefinition,
+} from "@/lib/feature-tracks";
+import type { ResidueRegion, UniProtFeature } from "@/lib/uniprot";
+import { cn } from "@/lib/utils";
+
+interface SequenceViewerProps {
+  sequence: string;
+  features: UniProtFeature[];
+  selection: ResidueRegion | null;
+  onSelectionChange: (selection: ResidueRegion | null) => void;
+  // Position highlighted from elsewhere, e.g. hovered in the 3D viewer
+  highlight?: number | null;
+  onResidueHover?: (position: number | null) => void;
+}
+
+interface HoveredFeature {
+  feature: UniProtFeature;
+  track: TrackDefinition;
+  x: number;
+  y: number;
+}
+
+const RULER_HEIGHT = 20;
+const SEQUENCE_HEIGHT = 18;
+const ROW_HEIGHT = 10;
+const ROW_GAP = 4;
+const TRACK_GAP = 10;
+// Residue widths in pixels; letters are drawn from LETTER_WIDTH on
+const MAX_ZOOM = 24;
+const LETTER_WIDTH = 9;
+const ZOOM_STEP = 1.5;
+
+function tickInterval(residueWidth: number) {
+  // Roughly one label every 80px, at 1-2-5 steps
+  const target = 80 / residueWidth;
+  const magnitude = 10 ** Math.floor(Math.log10(target));
+  const step = [1, 2, 5, 10].find((s) => s * magnitude >= target) ?? 10;
+  return Math.max(1, step * magnitude);
+}
+
+// Sequence with residue numbering and UniProt feature tracks underneath.
+// Drag across the ruler or sequence, or click a feature, to select a range.
+export function SequenceViewer({
+  sequence,
+  features,
+  selection,
+  onSelectionChange,
+  highlight = null,
+  onResidueHover,
+}: SequenceViewerProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ left: 0, width: 0 });
+  const [residueWidth, setResidueWidth] = useState(12);
+  const [hovered, setHovered] = useState<HoveredFeature | null>(null);
+  const [hoveredResidue, setHoveredResidue] = useState<number | null>(null);
+  const dragAnchor = useRef<number | null>(null);
+
+  const length = sequence.length;
+  const fitWidth = viewport.width > 0 ? viewport.width / length : 1;
+  const width = Math.max(residueWidth, fitWidth);
+  const tracks = useMemo(() => layoutTracks(features), [features]);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const update = () =>
+      setViewport({ left: element.scrollLeft, width: element.clientWidth });
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    element.addEventListener("scroll", update, { passive: true });
+    return () => {
+      observer.disconnect();
+      element.removeEventListener("scroll", update);
+    };
+  }, []);
+
+  // Bring residues highlighted from the 3D viewer into view
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element || highlight === null) return;
+    const left = (highlight - 1) * width;
+    if (
+      left < element.scrollLeft ||
+      left + width > element.scrollLeft + element.clientWidth
+    ) {
+      element.scrollLeft = left - element.clientWidth / 2;
+    }
+  }, [highlight, width]);
+
+  // Keep the residue in the middle of the view in place while zooming
+  const zoomTo = (next: number) => {
+    const element = scrollRef.current;
+    const clamped = Math.min(MAX_ZOOM, Math.max(fitWidth, next));
+    if (element) {
+      const center = (element.scrollLeft + element.clientWidth / 2) / width;
+      requestAnimationFrame(() => {
+        element.scrollLeft = center * clamped - element.clientWidth / 2;
+      });
+    }
+    setResidueWidth(clamped);
+  };
+
+  const rowsTop = RULER_HEIGHT + SEQUENCE_HEIGHT + TRACK_GAP;
+  const trackOffsets = tracks.reduce<number[]>((offsets, _, i) => {
+    const previous =
+      i === 0
+        ? rowsTop
+        : offsets[i - 1] +
+          tracks[i - 1].rows.length * (ROW_HEIGHT + ROW_GAP) +
+          TRACK_GAP;
+    return [...offsets, previous];
+  }, []);
+  const height =
+    tracks.length > 0
+      ? trackOffsets[tracks.length - 1] +
+        tracks[tracks.length - 1].rows.length * (ROW_HEIGHT + ROW_GAP)
+      : rowsTop;
+
+  const first = Math.max(1, Math.floor(viewport.left / width) - 10);
+  const last = Math.min(
+    length,
+    Math.ceil((viewport.left + viewport.width) / width) + 10
+  );
+  const interval = tickInterval(width);
+  const ticks: number[] = [];
+  for (
+    let residue = Math.max(interval, Math.ceil(first / interval) * interval);
+    residue <= last;
+    residue += interval
+  ) {
+    ticks.push(residue);
+  }
+  const letters =
+    width >= LETTER_WIDTH
+      ? Array.from({ length: last - first + 1 }, (_, i) => first + i)
+      : [];
+
+  const x = (residue: number) => (residue - 1) * width;
+  const pointed = hoveredResidue ?? highlight;
+  const residueAt = (clientX: number) => {
+    const element = scrollRef.current;
+    if (!element) return 1;
+    const offset =
+      clientX - element.getBoundingClientRect().left + element.scrollLeft;
+    return Math.min(length, Math.max(1, Math.floor(offset / width) + 1));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    const residue = residueAt(event.clientX);
+    dragAnchor.current = residue;
+    (event.target as Element).setPointerCapture(event.pointerId);
+    onSelectionChange({ start: residue, end: residue });
+  };
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const residue = residueAt(event.clientX);
+    if (residue !== hoveredResidue) {
+      setHoveredResidue(residue);
+      onResidueHover?.(residue);
+    }
+    if (dragAnchor.current === null) return;
+    onSelectionChange({
+      start: Math.min(dragAnchor.current, residue),
+      end: Math.max(dragAnchor.current, residue),
+    });
+  };
+  const handlePointerUp = () => {
+    dragAnchor.current = null;
+  };
+
+  const renderFeature = (
+    feature: UniProtFeature,
+    track: TrackDefinition,
+    y: number,
+    key: string
+  ) => {
+    const common = {
+      className: cn(track.color, "cursor-pointer hover:opacity-70"),
+      onMouseEnter: (event: React.MouseEvent) =>
+        setHovered({ feature, track, x: event.clientX, y: event.clientY }),
+      onMouseLeave: () => setHovered(null),
+      onClick: () =>
+        onSelectionChange({ start: feature.start, end: feature.end }),
+    };
+    if (track.shape === "bond") {
+      // The two bonded cysteines joined by a bracket
+      const left = x(feature.start) + width / 2;
+      const right = x(feature.end) + width / 2;
+      return (
+        <path
+          key={key}
+          {...common}
+          d={`M${left},${y + ROW_HEIGHT} V${y} H${right} V${y + ROW_HEIGHT}`}
+          className="cursor-pointer fill-none stroke-yellow-600 stroke-2 hover:opacity-70"
+        />
+      );
+    }
+    if (track.shape === "site" && feature.start === feature.end) {
+      const cx = x(feature.start) + width / 2;
+      const r = Math.min(ROW_HEIGHT / 2, Math.max(width / 2, 3));
+      return (
+        <circle key={key} {...common} cx={cx} cy={y + ROW_HEIGHT / 2} r={r} />
+      );
+    }
+    return (
+      <rect
+        key={key}
+        {...common}
+        x={x(feature.start)}
+        y={y}
+        width={Math.max(2, (feature.end - feature.start + 1) * width)}
+        height={ROW_HEIGHT}
+        rx={2}
+      />
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <span>
+          {length} residues
+          {pointed !== null && ` · ${sequence[pointed - 1]}${pointed}`}
+        </span>
+        {selection && (
+          <span className="flex items-center gap-1 rounded-full bg-indigo-50 px-2 text-indigo-700">
+            Selected {selection.start}
+            {selection.end !== selection.start && `-${selection.end}`}
+            <button
+              type="button"
+              aria-label="Clear selection"
+              onClick={() => onSelectionChange(null)}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Zoom out"
+            onClick={() => zoomTo(width / ZOOM_STEP)}
+            disabled={width <= fitWidth}
+            className="h-7 w-7"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Zoom in"
+            onClick={() => zoomTo(width * ZOOM_STEP)}
+            disabled={width >= MAX_ZOOM}
+            className="h-7 w-7"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Fit to width"
+            onClick={() => zoomTo(fitWidth)}
+            className="h-7 w-7"
+          >
+            <Maximize2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex">
+        <div
+          className="relative shrink-0 text-xs text-gray-500"
+          style={{ width: "9rem", height }}
+        >
+          {tracks.map(({ track }, i) => (
+            <div
+              key={track.id}
+              className="absolute right-2 max-w-full truncate leading-none"
+              style={{ top: trackOffsets[i] }}
+            >
+              {track.label}
+            </div>
+          ))}
+        </div>
+        <div
+          ref={scrollRef}
+          className="relative flex-grow overflow-x-auto"
+          onMouseLeave={() => {
+            setHoveredResidue(null);
+            onResidueHover?.(null);
+          }}
+        >
+          <svg
+            width={length * width}
+            height={height}
+            className="block select-none"
+          >
+            {selection && (
+              <rect
+                x={x(selection.start)}
+                y={0}
+                width={(selection.end - selection.start + 1) * width}
+                height={height}
+                className="fill-indigo-200/60"
+              />
+            )}
+            {highlight !== null && highlight >= 1 && highlight <= length && (
+              <rect
+                x={x(highlight)}
+                y={0}
+                width={Math.max(width, 2)}
+                height={height}
+                className="fill-amber-300/70"
+              />
+            )}
+            <g
+              className="cursor-text"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <rect
+                width={length * width}
+                height={RULER_HEIGHT + SEQUENCE_HEIGHT}
+                className="fill-transparent"
+              />
+              {ticks.map((residue) => (
+                <g key={residue}>
+                  <line
+                    x1={x(residue) + width / 2}
+                    x2={x(residue) + width / 2}
+                    y1={RULER_HEIGHT - 5}
+                    y2={RULER_HEIGHT}
+                    className="stroke-gray-400"
+                  />
+                  <text
+                    x={x(residue) + width / 2}
+                    y={RULER_HEIGHT - 7}
+                    textAnchor="middle"
+                    className="fill-gray-500 text-[10px]"
+                  >
+                    {residue}
+                  </text>
+                </g>
+              ))}
+              {letters.length > 0 ? (
+                letters.map((residue) => (
+                  <text
+                    key={residue}
+                    x={x(residue) + width / 2}
+                    y={RULER_HEIGHT + SEQUENCE_HEIGHT - 5}
+                    textAnchor="middle"
+                    className="fill-gray-800 font-mono text-[11px]"
+                  >
+                    {sequence[residue - 1]}
+                  </text>
+                ))
+              ) : (
+                <rect
+                  y={RULER_HEIGHT + 4}
+                  width={length * width}
+                  height={SEQUENCE_HEIGHT - 8}
+                  rx={2}
+                  className="fill-gray-300"
+                />
+              )}
+            </g>
+            {tracks.map(({ track, rows }, i) =>
+              rows.map((row, r) =>
+                row.map((feature, f) =>
+                  renderFeature(
+                    feature,
+                    track,
+                    trackOffsets[i] + r * (ROW_HEIGHT + ROW_GAP),
+                    `${track.id}-${r}-${f}`
+                  )
+                )
+              )
+            )}
+          </svg>
+        </div>
+      </div>
+
+      {hovered && (
+        <div
+          role="tooltip"
+          className="pointer-events-none fixed z-50 max-w-xs rounded-md border border-indigo-100 bg-white p-2 text-xs shadow-lg"
+          style={{ left: hovered.x + 12, top: hovered.y + 12 }}
+        >
+          <p className="font-medium text-indigo-700">
+            {hovered.feature.type}{" "}
+            <span className="font-normal text-gray-500">
+              {hovered.feature.start === hovered.feature.end
+                ? hovered.feature.start
+                : `${hovered.feature.start}-${hovered.feature.end}`}
+            </span>
+          </p>
+          {describeVariant(hovered.feature) && (
+            <p className="font-mono">{describeVariant(hovered.feature)}</p>
+          )}
+          {(hovered.feature.description || hovered.feature.ligand) && (
+            <p>
+              {[hovered.feature.description, hovered.feature.ligand]
+                .filter(Boolean)
+                .join(" · ")}
+            </p>
+          )}
+          {hovered.feature.evidences.length > 0 && (
+            <ul className="mt-1 text-gray-500">
+              {hovered.feature.evidences.slice(0, 5).map((evidence, i) => (
+                <li key={i}>{describeEvidence(evidence)}</li>
+              ))}
+              {hovered.feature.evidences.length > 5 && (
+                <li>and {hovered.feature.evidences.length - 5} more</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { ReactNode, useRef, useState } from "react";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+const ACCEPTED_FILES = ".cif,.mmcif,.bcif,.pdb,.ent,.gz";
+
+interface StructureDropZoneProps {
+  onFiles: (files: File[]) => void;
+  children: ReactNode;
+  className?: string;
+}
+
+// Accepts structure files dropped onto the viewer or picked with the button
+// in its corner. Format checks happen when the file is loaded.
+export function StructureDropZone({
+  onFiles,
+  children,
+  className,
+}: StructureDropZoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const hasFiles = (event: React.DragEvent) =>
+    event.dataTransfer.types.includes("Files");
+
+  return (
+    <div
+      className={cn("relative", className)}
+      onDragEnter={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragOver={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "copy";
+      }}
+      onDragLeave={(e) => {
+        // Ignore leaving for one of our own children
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setDragging(false);
+        }
+      }}
+      onDrop={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        setDragging(false);
+        onFiles(Array.from(e.dataTransfer.files));
+      }}
+    >
+      {children}
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_FILES}
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          onFiles(Array.from(e.target.files ?? []));
+          // Allow picking the same file again
+          e.target.value = "";
+        }}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        className="absolute bottom-2 right-2 z-20 bg-white/90 text-indigo-600 hover:bg-indigo-50"
+      >
+        <Upload className="mr-1 h-4 w-4" />
+        Open file
+      </Button>
+      {dragging && (
+        <div className="pointer-events-none absolute inset-0 z-30 flex items-center justify-center rounded-md border-2 border-dashed border-indigo-400 bg-indigo-50/90 text-indigo-700">
+          Drop PDB, mmCIF or BinaryCIF files to load them
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+import { useMemo, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  ExternalLink,
+  Sparkles,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { StructureSummary } from "@/lib/beacons";
+import { isLocalStructure } from "@/lib/data-sources";
+import {
+  bestStructureForRegion,
+  distinctValues,
+  EMPTY_STRUCTURE_FILTER,
+  filterStructures,
+  sequenceCoverage,
+  sortStructures,
+  StructureFilter,
+  StructureSort,
+  StructureSortKey,
+} from "@/lib/structure-ranking";
+import type { ResidueRegion } from "@/lib/uniprot";
+import { cn } from "@/lib/utils";
+
+interface StructureTableProps {
+  structures: StructureSummary[];
+  sequenceLength: number;
+  selectedId: string | null;
+  onSelect: (summary: StructureSummary) => void;
+  onRemove?: (summary: StructureSummary) => void;
+}
+
+const COLUMNS: { key: StructureSortKey; label: string }[] = [
+  { key: "id", label: "ID" },
+  { key: "provider", label: "Provider" },
+  { key: "category", label: "Category" },
+  { key: "method", label: "Method" },
+  { key: "resolution", label: "Resolution" },
+  { key: "coverage", label: "Coverage" },
+  { key: "created", label: "Released" },
+];
+
+const SELECT_CLASS =
+  "h-9 rounded-md border border-input bg-background px-2 text-sm";
+
+function CoverageBar({
+  summary,
+  length,
+  region,
+}: {
+  summary: StructureSummary;
+  length: number;
+  region: ResidueRegion;
+}) {
+  const percent = (residue: number) =>
+    `${(Math.min(Math.max(residue, 0), length) / length) * 100}%`;
+  return (
+    <div
+      className="relative h-3 w-32 rounded-sm bg-gray-100"
+      title={`Residues ${summary.uniprotStart}-${summary.uniprotEnd} of ${length}`}
+    >
+      <div
+        className="absolute inset-y-0 bg-indigo-100"
+        style={{
+          left: percent(region.start - 1),
+          width: `calc(${percent(region.end)} - ${percent(region.start - 1)})`,
+        }}
+      />
+      <div
+        className="absolute inset-y-0.5 rounded-sm bg-indigo-500"
+        style={{
+          left: percent(summary.uniprotStart - 1),
+          width: `calc(${percent(summary.uniprotEnd)} - ${percent(
+            summary.uniprotStart - 1
+          )})`,
+        }}
+      />
+    </div>
+  );
+}
+
+// Table of every available model with sorting, filters and a coverage bar
+// against the UniProt sequence. "Best for region" picks the model that
+// covers the chosen residue range best, see bestStructureForRegion.
+export function StructureTable({
+  structures,
+  sequenceLength,
+  selectedId,
+  onSelect,
+  onRemove,
+}: StructureTableProps) {
+  const length = Math.max(sequenceLength, 1);
+  const [sort, setSort] = useState<StructureSort>({
+    key: "coverage",
+    direction: "desc",
+  });
+  const [filter, setFilter] = useState<StructureFilter>(EMPTY_STRUCTURE_FILTER);
+  const [region, setRegion] = useState<ResidueRegion>({
+    start: 1,
+    end: length,
+  });
+
+  const rows = useMemo(
+    () =>
+      sortStructures(
+        filterStructures(structures, filter, length),
+        sort,
+        length
+      ),
+    [structures, filter, sort, length]
+  );
+  const options = useMemo(
+    () => ({
+      provider: distinctValues(structures, "provider"),
+      category: distinctValues(structures, "category"),
+      method: distinctValues(structures, "method"),
+    }),
+    [structures]
+  );
+  const best = bestStructureForRegion(rows, region);
+
+  const updateFilter = (change: Partial<StructureFilter>) =>
+    setFilter((current) => ({ ...current, ...change }));
+  const toggleSort = (key: StructureSortKey) =>
+    setSort((current) =>
+      current.key === key
+        ? { key, direction: current.direction === "asc" ? "desc" : "asc" }
+        : { key, direction: key === "coverage" ? "desc" : "asc" }
+    );
+  const updateRegion = (bound: keyof ResidueRegion, value: string) => {
+    const residue = Math.min(Math.max(Number(value) || 1, 1), length);
+    setRegion((current) => {
+      const next = { ...current, [bound]: residue };
+      return next.start <= next.end ? next : { start: residue, end: residue };
+    });
+  };
+  const numberOrNull = (value: string) =>
+    value === "" || Number.isNaN(Number(value)) ? null : Number(value);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={filter.text}
+          onChange={(e) => updateFilter({ text: e.target.value })}
+          placeholder="Filter by ID, provider or method"
+          className="h-9 w-56"
+        />
+        {(["provider", "category", "method"] as const).map((key) => (
+          <select
+            key={key}
+            aria-label={key}
+            value={filter[key] ?? ""}
+            onChange={(e) => updateFilter({ [key]: e.target.value || null })}
+            className={SELECT_CLASS}
+          >
+            <option value="">
+              All {key === "category" ? "categories" : `${key}s`}
+            </option>
+            {options[key].map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        ))}
+        <Input
+          type="number"
+          min={0}
+          step={0.1}
+          value={filter.maxResolution ?? ""}
+          onChange={(e) =>
+            updateFilter({ maxResolution: numberOrNull(e.target.value) })
+          }
+          placeholder="Max Å"
+          className="h-9 w-24"
+        />
+        <Input
+          type="number"
+          min={0}
+          max={100}
+          value={
+            filter.minCoverage === null
+              ? ""
+              : Math.round(filter.minCoverage * 100)
+          }
+          onChange={(e) => {
+            const percent = numberOrNull(e.target.value);
+            updateFilter({
+              minCoverage: percent === null ? null : percent / 100,
+            });
+          }}
+          placeholder="Min %"
+          className="h-9 w-24"
+        />
+        <Input
+          type="date"
+          value={filter.releasedAfter ?? ""}
+          onChange={(e) =>
+            updateFilter({ releasedAfter: e.target.value || null })
+          }
+          aria-label="Released after"
+          className="h-9 w-40"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-600">Region</span>
+        <Input
+          type="number"
+          min={1}
+          max={length}
+          value={region.start}
+          onChange={(e) => updateRegion("start", e.target.value)}
+          aria-label="Region start"
+          className="h-9 w-24"
+        />
+        <span className="text-gray-600">to</span>
+        <Input
+          type="number"
+          min={1}
+          max={length}
+          value={region.end}
+          onChange={(e) => updateRegion("end", e.target.value)}
+          aria-label="Region end"
+          className="h-9 w-24"
+        />
+        <Button
+          size="sm"
+          disabled={!best}
+          onClick={() => best && onSelect(best)}
+          className="bg-indigo-600 hover:bg-indigo-700"
+        >
+          <Sparkles className="mr-1 h-4 w-4" />
+          Best for region{best ? `: ${best.id}` : ""}
+        </Button>
+        <span className="ml-auto text-gray-500">
+          {rows.length} of {structures.length} structures
+        </span>
+      </div>
+
+      <div className="max-h-[55vh] overflow-auto rounded-md border border-indigo-100">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 z-10 bg-indigo-50 text-left">
+            <tr>
+              {COLUMNS.map(({ key, label }) => (
+                <th
+                  key={key}
+                  aria-sort={
+                    sort.key === key
+                      ? sort.direction === "asc"
+                        ? "ascending"
+                        : "descending"
+                      : undefined
+                  }
+                  className="px-3 py-2 font-medium text-indigo-700"
+                >
+                  <button
+                    type="button"
+                    onClick={() => toggleSort(key)}
+                    className="flex items-center gap-1"
+                  >
+                    {label}
+                    {sort.key === key &&
+                      (sort.direction === "asc" ? (
+                        <ArrowUp className="h-3 w-3" />
+                      ) : (
+                        <ArrowDown className="h-3 w-3" />
+                      ))}
+                  </button>
+                </th>
+              ))}
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((summary) => (
+              <tr
+                key={summary.id}
+                onClick={() => onSelect(summary)}
+                className={cn(
+                  "cursor-pointer border-t border-indigo-50 hover:bg-indigo-50",
+                  summary.id === selectedId && "bg-indigo-100"
+                )}
+              >
+                <td className="px-3 py-2 font-medium">{summary.id}</td>
+                <td className="px-3 py-2">{summary.provider}</td>
+                <td className="px-3 py-2">
+                  {isLocalStructure(summary) ? "Local file" : summary.category}
+                </td>
+                <td className="px-3 py-2 break-all">{summary.method ?? "–"}</td>
+                <td className="px-3 py-2">
+                  {summary.resolution !== null
+                    ? `${summary.resolution} Å`
+                    : "–"}
+                </td>
+                <td className="px-3 py-2">
+                  <div className="flex items-center gap-2">
+                    <CoverageBar
+                      summary={summary}
+                      length={length}
+                      region={region}
+                    />
+                    <span className="text-gray-600">
+                      {Math.round(sequenceCoverage(summary, length) * 100)}%
+                    </span>
+                  </div>
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  {summary.created ?? "–"}
+                </td>
+                <td className="px-3 py-2" onClick={(e) => e.stopPropagation()}>
+                  {isLocalStructure(summary)
+                    ? onRemove && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Remove"
+                          onClick={() => onRemove(summary)}
+                          className="h-7 w-7 text-indigo-600 hover:bg-indigo-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )
+                    : summary.pageUrl && (
+                        <a
+                          href={summary.pageUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          title="Model page"
+                          className="text-indigo-600 hover:text-indigo-800"
+                        >
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      )}
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td
+                  colSpan={COLUMNS.length + 1}
+                  className="px-3 py-6 text-center text-gray-500"
+                >
+                  No structures match these filters
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { Rotate3d, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type {
+  ColorScheme,
+  RepresentationType,
+  ViewerDisplay,
+} from "@/lib/viewer";
+
+interface StructureToolbarProps {
+  display: ViewerDisplay;
+  onChange: (display: ViewerDisplay) => void;
+  onResetCamera: () => void;
+  // Set while an annotation or confidence coloring replaces the scheme
+  colorSchemeOverridden?: boolean;
+  className?: string;
+}
+
+const REPRESENTATIONS: { value: RepresentationType; label: string }[] = [
+  { value: "cartoon", label: "Cartoon" },
+  { value: "molecular-surface", label: "Surface" },
+  { value: "ball-and-stick", label: "Ball & stick" },
+  { value: "spacefill", label: "Spacefill" },
+];
+
+const COLOR_SCHEMES: { value: ColorScheme; label: string }[] = [
+  { value: "chain-id", label: "By chain" },
+  { value: "sequence-id", label: "Rainbow" },
+  { value: "secondary-structure", label: "Secondary structure" },
+  { value: "element-symbol", label: "Element" },
+  { value: "hydrophobicity", label: "Hydrophobicity" },
+];
+
+const TOGGLES: { key: "ligands" | "water" | "hydrogens"; label: string }[] = [
+  { key: "ligands", label: "Ligands" },
+  { key: "water", label: "Water" },
+  { key: "hydrogens", label: "Hydrogens" },
+];
+
+const SELECT_CLASS =
+  "h-8 rounded-md border border-input bg-background px-2 text-sm text-gray-700";
+
+export function StructureToolbar({
+  display,
+  onChange,
+  onResetCamera,
+  colorSchemeOverridden = false,
+  className,
+}: StructureToolbarProps) {
+  const update = (change: Partial<ViewerDisplay>) =>
+    onChange({ ...display, ...change });
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      <select
+        aria-label="Representation"
+        value={display.representation}
+        onChange={(e) =>
+          update({ representation: e.target.value as RepresentationType })
+        }
+        className={SELECT_CLASS}
+      >
+        {REPRESENTATIONS.map(({ value, label }) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Color scheme"
+        value={display.colorScheme}
+        onChange={(e) => update({ colorScheme: e.target.value as ColorScheme })}
+        disabled={colorSchemeOverridden}
+        title={
+          colorSchemeOverridden
+            ? 'The structure is colored by the "Color by" setting'
+            : undefined
+        }
+        className={SELECT_CLASS}
+      >
+        {COLOR_SCHEMES.map(({ value, label }) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+      {TOGGLES.map(({ key, label }) => (
+        <Button
+          key={key}
+          variant="outline"
+          size="sm"
+          aria-pressed={display[key]}
+          onClick={() => update({ [key]: !display[key] })}
+          className={cn(
+            "h-8 px-2",
+            display[key] &&
+              "border-indigo-300 bg-indigo-50 text-indigo-700 hover:bg-indigo-100"
+          )}
+        >
+          {label}
+        </Button>
+      ))}
+      <div className="ml-auto flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          title={display.spin ? "Stop spinning" : "Spin"}
+          aria-pressed={display.spin}
+          onClick={() => update({ spin: !display.spin })}
+          className={cn(
+            "h-8 w-8 text-indigo-600 hover:bg-indigo-50",
+            display.spin && "bg-indigo-50"
+          )}
+        >
+          <Rotate3d className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Reset camera"
+          onClick={onResetCamera}
+          className="h-8 w-8 text-indigo-600 hover:bg-indigo-50"
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
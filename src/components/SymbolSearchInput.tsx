@@ -0,0 +1,120 @@
+import { forwardRef, useId, useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { SymbolIndex, SymbolMatch } from "@/lib/symbol-index";
+
+interface SymbolSearchInputProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  onSubmit: (value: string) => void;
+  index: SymbolIndex | null;
+  placeholder?: string;
+  className?: string;
+}
+
+export const SymbolSearchInput = forwardRef<
+  HTMLInputElement,
+  SymbolSearchInputProps
+>(({ value, onValueChange, onSubmit, index, placeholder, className }, ref) => {
+  const listId = useId();
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const suggestions = useMemo(
+    () => (index ? index.search(value) : []),
+    [index, value]
+  );
+  const showList = open && suggestions.length > 0;
+
+  const select = (match: SymbolMatch) => {
+    onValueChange(match.symbol);
+    setOpen(false);
+    setActiveIndex(-1);
+    onSubmit(match.symbol);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "ArrowDown":
+        event.preventDefault();
+        setOpen(true);
+        setActiveIndex((i) => (i + 1) % Math.max(suggestions.length, 1));
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        setOpen(true);
+        setActiveIndex((i) => (i <= 0 ? suggestions.length - 1 : i - 1));
+        break;
+      case "Enter":
+        if (showList && activeIndex >= 0 && suggestions[activeIndex]) {
+          select(suggestions[activeIndex]);
+        } else {
+          setOpen(false);
+          onSubmit(value);
+        }
+        break;
+      case "Escape":
+        setOpen(false);
+        setActiveIndex(-1);
+        break;
+    }
+  };
+
+  return (
+    <div className={cn("relative", className)}>
+      <Input
+        ref={ref}
+        type="text"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-activedescendant={
+          showList && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined
+        }
+        autoComplete="off"
+        value={value}
+        onChange={(e) => {
+          onValueChange(e.target.value);
+          setOpen(true);
+          setActiveIndex(-1);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        placeholder={placeholder}
+        className="w-full"
+      />
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-50 mt-1 max-h-64 w-full overflow-y-auto rounded-md border border-indigo-100 bg-white py-1 shadow-lg"
+        >
+          {suggestions.map((match, i) => (
+            <li
+              key={match.symbol}
+              id={`${listId}-${i}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              // Keep focus in the input so the click lands before onBlur
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(match)}
+              onMouseEnter={() => setActiveIndex(i)}
+              className={cn(
+                "flex cursor-pointer items-center justify-between px-3 py-2 text-sm",
+                i === activeIndex && "bg-indigo-50"
+              )}
+            >
+              <span className="font-medium text-indigo-700">
+                {match.symbol}
+              </span>
+              <span className="text-gray-500">{match.accession}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
+SymbolSearchInput.displayName = "SymbolSearchInput";
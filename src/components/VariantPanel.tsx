@@ -0,0 +1,265 @@
+import { useEffect, useMemo, useState } from "react";
+import { ExternalLink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { describeEvidence } from "@/lib/evidence";
+import type { UniProtDisease } from "@/lib/uniprot";
+import { cn } from "@/lib/utils";
+import {
+  EMPTY_VARIANT_FILTER,
+  filterVariants,
+  omimUrl,
+  VARIANT_CONSEQUENCES,
+  VariantConsequence,
+  VariantFilter,
+  VariantRow,
+} from "@/lib/variants";
+
+interface VariantPanelProps {
+  variants: VariantRow[];
+  diseases: UniProtDisease[];
+  // Keys of the variants marked in the structure
+  selected: string[];
+  onSelectedChange: (keys: string[]) => void;
+}
+
+const SELECT_CLASS =
+  "h-9 rounded-md border border-input bg-background px-2 text-sm";
+
+const consequenceLabel = (consequence: VariantConsequence) =>
+  VARIANT_CONSEQUENCES.find(({ value }) => value === consequence)?.label ??
+  consequence;
+
+function MimLink({ mim }: { mim: string }) {
+  return (
+    <a
+      href={omimUrl(mim)}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-indigo-600 hover:text-indigo-800"
+    >
+      MIM:{mim}
+      <ExternalLink className="inline-block ml-1 h-3 w-3" />
+    </a>
+  );
+}
+
+// Diseases of the entry and its natural variants. Ticked variants are
+// marked on the structure; clicking a disease filters to its variants.
+export function VariantPanel({
+  variants,
+  diseases,
+  selected,
+  onSelectedChange,
+}: VariantPanelProps) {
+  const [filter, setFilter] = useState<VariantFilter>(EMPTY_VARIANT_FILTER);
+  const rows = useMemo(
+    () => filterVariants(variants, filter),
+    [variants, filter]
+  );
+
+  useEffect(() => setFilter(EMPTY_VARIANT_FILTER), [variants]);
+
+  const updateFilter = (change: Partial<VariantFilter>) =>
+    setFilter((current) => ({ ...current, ...change }));
+  const toggle = (key: string, on: boolean) =>
+    onSelectedChange(
+      on ? [...selected, key] : selected.filter((other) => other !== key)
+    );
+
+  if (variants.length === 0 && diseases.length === 0) {
+    return (
+      <p className="text-gray-500 italic">No variants or diseases annotated</p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {diseases.length > 0 && (
+        <ul className="flex flex-col gap-2">
+          {diseases.map((disease) => (
+            <li key={disease.id} className="text-sm">
+              <button
+                type="button"
+                onClick={() =>
+                  updateFilter({
+                    disease: filter.disease === disease.id ? null : disease.id,
+                  })
+                }
+                title={disease.description ?? undefined}
+                className={cn(
+                  "font-medium text-indigo-700 hover:underline",
+                  filter.disease === disease.id && "underline"
+                )}
+              >
+                {disease.name}
+                {disease.acronym && ` (${disease.acronym})`}
+              </button>{" "}
+              {disease.mim && <MimLink mim={disease.mim} />}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {variants.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            <select
+              aria-label="Disease"
+              value={filter.disease ?? ""}
+              onChange={(e) =>
+                updateFilter({ disease: e.target.value || null })
+              }
+              className={SELECT_CLASS}
+            >
+              <option value="">All variants</option>
+              {diseases.map(({ id, name, acronym }) => (
+                <option key={id} value={id}>
+                  {acronym ?? name}
+                </option>
+              ))}
+              <option value="none">Without disease</option>
+            </select>
+            <select
+              aria-label="Consequence"
+              value={filter.consequence ?? ""}
+              onChange={(e) =>
+                updateFilter({
+                  consequence: (e.target.value as VariantConsequence) || null,
+                })
+              }
+              className={SELECT_CLASS}
+            >
+              <option value="">Any consequence</option>
+              {VARIANT_CONSEQUENCES.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <span>
+              {rows.length} of {variants.length} variants
+            </span>
+            <div className="ml-auto flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  onSelectedChange(
+                    Array.from(
+                      new Set([...selected, ...rows.map(({ key }) => key)])
+                    )
+                  )
+                }
+                disabled={rows.length === 0}
+                className="h-8 px-2"
+              >
+                Mark shown
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onSelectedChange([])}
+                disabled={selected.length === 0}
+                className="h-8 px-2"
+              >
+                Clear {selected.length > 0 && `(${selected.length})`}
+              </Button>
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-auto rounded-md border border-indigo-100">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-indigo-50 text-left text-indigo-700">
+                <tr>
+                  <th className="px-3 py-2">
+                    <span className="sr-only">Mark</span>
+                  </th>
+                  <th className="px-3 py-2 font-medium">Position</th>
+                  <th className="px-3 py-2 font-medium">Change</th>
+                  <th className="px-3 py-2 font-medium">Consequence</th>
+                  <th className="px-3 py-2 font-medium">Disease</th>
+                  <th className="px-3 py-2 font-medium">Evidence</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((variant) => {
+                  const marked = selected.includes(variant.key);
+                  const { start, end } = variant.region;
+                  return (
+                    <tr
+                      key={variant.key}
+                      className={cn(
+                        "border-t border-indigo-50 align-top",
+                        marked && "bg-rose-50"
+                      )}
+                    >
+                      <td className="px-3 py-1.5">
+                        <input
+                          type="checkbox"
+                          aria-label={`Mark ${variant.change}`}
+                          checked={marked}
+                          onChange={(e) =>
+                            toggle(variant.key, e.target.checked)
+                          }
+                        />
+                      </td>
+                      <td className="px-3 py-1.5">
+                        {start === end ? start : `${start}-${end}`}
+                      </td>
+                      <td className="px-3 py-1.5 font-mono">
+                        {variant.change}
+                      </td>
+                      <td className="px-3 py-1.5">
+                        {consequenceLabel(variant.consequence)}
+                      </td>
+                      <td className="px-3 py-1.5">
+                        {variant.diseases.map((disease) => (
+                          <span
+                            key={disease.id}
+                            title={disease.name}
+                            className="mr-1 font-medium text-gray-800"
+                          >
+                            {disease.acronym}
+                          </span>
+                        ))}
+                        {variant.feature.description && (
+                          <p className="text-xs text-gray-500">
+                            {variant.feature.description}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-3 py-1.5">
+                        {variant.feature.evidences.map((evidence, i) =>
+                          evidence.source === "PubMed" && evidence.id ? (
+                            <a
+                              key={i}
+                              href={`https://pubmed.ncbi.nlm.nih.gov/${evidence.id}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              title={describeEvidence(evidence)}
+                              className="mr-2 whitespace-nowrap text-indigo-600 hover:text-indigo-800"
+                            >
+                              PubMed:{evidence.id}
+                            </a>
+                          ) : (
+                            <span
+                              key={i}
+                              title={describeEvidence(evidence)}
+                              className="mr-2 text-gray-500"
+                            >
+                              {evidence.code}
+                            </span>
+                          )
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
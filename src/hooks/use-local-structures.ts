@@ -0,0 +1,15 @@
+import { useCallback, useSyncExternalStore } from "react";
+import type { StructureSummary } from "@/lib/beacons";
+import { localStructures } from "@/lib/data-sources";
+
+const NO_STRUCTURES: StructureSummary[] = [];
+
+// Structure files the user opened for `accession`, updated as files are
+// added or removed
+export function useLocalStructures(accession: string | null) {
+  const snapshot = useCallback(
+    () => (accession ? localStructures.list(accession) : NO_STRUCTURES),
+    [accession]
+  );
+  return useSyncExternalStore(localStructures.subscribe, snapshot);
+}
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from "react";
+import type { SourceState } from "@/hooks/use-protein-search";
+import type { PredictedAlignedError } from "@/lib/confidence";
+import { dataSource } from "@/lib/data-sources";
+import { isAbortError, toAppError } from "@/lib/errors";
+
+interface PaeState {
+  url: string;
+  result: SourceState<PredictedAlignedError>;
+}
+
+// Loads the PAE file at `url` (null when the model has none). A result is
+// only returned for the URL it was requested for, so switching models never
+// shows the previous model's matrix.
+export function usePae(url: string | null) {
+  const [state, setState] = useState<PaeState | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!url) return;
+    const controller = new AbortController();
+    const { signal } = controller;
+    setState({ url, result: { status: "loading" } });
+    dataSource.fetchPae(url, { signal }).then(
+      (data) => {
+        if (!signal.aborted)
+          setState({ url, result: { status: "ready", data } });
+      },
+      (error: unknown) => {
+        if (signal.aborted || isAbortError(error)) return;
+        setState({
+          url,
+          result: { status: "error", error: toAppError(error) },
+        });
+      }
+    );
+    return () => controller.abort();
+  }, [url, attempt]);
+
+  const retry = useCallback(() => setAttempt((n) => n + 1), []);
+  const pae: SourceState<PredictedAlignedError> | null = !url
+    ? null
+    : state?.url === url
+    ? state.result
+    : { status: "loading" };
+
+  return { pae, retry };
+}
@@ -0,0 +1,223 @@
+import {
+  Dispatch,
+  useCallback,
+  useEffect,
+  useReducer,
+  useRef,
+  useState,
+} from "react";
+import type { StructureSummary } from "@/lib/beacons";
+import { dataSource } from "@/lib/data-sources";
+import { AppError, isAbortError, toAppError } from "@/lib/errors";
+import { loadIdentifierResolver, Resolution } from "@/lib/identifiers";
+import type { UniProtEntry } from "@/lib/uniprot";
+
+export type SourceState<T> =
+  | { status: "loading" }
+  | { status: "ready"; data: T }
+  | { status: "error"; error: unknown };
+
+export type SearchStatus = "idle" | "resolving" | "loading" | "ready" | "error";
+
+interface SourceData {
+  entry: UniProtEntry;
+  structures: StructureSummary[];
+}
+
+export type SearchSource = keyof SourceData;
+
+// One state machine for the whole search: resolving the typed query, then
+// loading every source for a single accession. Source results are tagged
+// with the accession they were requested for and dropped if it is stale, so
+// panels never show data from two proteins. Each source fails on its own, so
+// a 3D Beacons outage leaves the UniProt panels intact.
+export interface SearchState {
+  status: SearchStatus;
+  query: string | null;
+  // Set when the last query could not be resolved to a single accession
+  resolution: Exclude<Resolution, { status: "resolved" }> | null;
+  // "unknown-identifier" error for an unresolved query
+  error: AppError | null;
+  accession: string | null;
+  entry: SourceState<UniProtEntry>;
+  structures: SourceState<StructureSummary[]>;
+}
+
+type SettledAction = {
+  [S in SearchSource]: {
+    type: "source-settled";
+    source: S;
+    accession: string;
+    result: SourceState<SourceData[S]>;
+  };
+}[SearchSource];
+
+type SearchAction =
+  | { type: "reset" }
+  | { type: "resolve-start"; query: string }
+  | { type: "resolve-failed"; resolution: SearchState["resolution"] }
+  | { type: "resolved"; accession: string }
+  | { type: "source-start"; source: SearchSource; accession: string }
+  | SettledAction;
+
+const LOADING = { status: "loading" } as const;
+
+const initialState: SearchState = {
+  status: "idle",
+  query: null,
+  resolution: null,
+  error: null,
+  accession: null,
+  entry: LOADING,
+  structures: LOADING,
+};
+
+function settledStatus(state: SearchState): SearchStatus {
+  if (!state.accession) return "idle";
+  if (state.entry.status === "loading" || state.structures.status === "loading")
+    return "loading";
+  return state.entry.status === "error" ? "error" : "ready";
+}
+
+// Keeps a pending resolution visible until it finishes
+function withStatus(previous: SearchState, next: SearchState): SearchState {
+  return previous.status === "resolving"
+    ? next
+    : { ...next, status: settledStatus(next) };
+}
+
+function reducer(state: SearchState, action: SearchAction): SearchState {
+  switch (action.type) {
+    case "reset":
+      return initialState;
+    case "resolve-start":
+      return {
+        ...state,
+        status: "resolving",
+        query: action.query,
+        resolution: null,
+        error: null,
+      };
+    case "resolve-failed":
+      return {
+        ...state,
+        status: "error",
+        resolution: action.resolution,
+        error:
+          action.resolution?.status === "unresolved"
+            ? new AppError(
+                "unknown-identifier",
+                `No UniProt ID found for "${action.resolution.query}".`
+              )
+            : null,
+      };
+    case "resolved":
+      // A new accession is picked up by "source-start" once the route
+      // changes; searching for the protein already on screen just ends
+      // resolution.
+      if (action.accession !== state.accession) return state;
+      return { ...state, query: null, status: settledStatus(state) };
+    case "source-start":
+      if (action.accession !== state.accession) {
+        return {
+          status: "loading",
+          query: null,
+          resolution: null,
+          error: null,
+          accession: action.accession,
+          entry: LOADING,
+          structures: LOADING,
+        };
+      }
+      return withStatus(state, { ...state, [action.source]: LOADING });
+    case "source-settled":
+      if (action.accession !== state.accession) return state;
+      return withStatus(
+        state,
+        action.source === "entry"
+          ? { ...state, entry: action.result }
+          : { ...state, structures: action.result }
+      );
+  }
+}
+
+function useSource<S extends SearchSource>(
+  source: S,
+  load: (accession: string, signal: AbortSignal) => Promise<SourceData[S]>,
+  accession: string | null,
+  attempt: number,
+  dispatch: Dispatch<SearchAction>
+) {
+  useEffect(() => {
+    if (!accession) return;
+    const controller = new AbortController();
+    const { signal } = controller;
+    const settle = (result: SourceState<SourceData[S]>) =>
+      dispatch({
+        type: "source-settled",
+        source,
+        accession,
+        result,
+      } as SettledAction);
+
+    dispatch({ type: "source-start", source, accession });
+    load(accession, signal).then(
+      (data) => {
+        if (!signal.aborted) settle({ status: "ready", data });
+      },
+      (error: unknown) => {
+        if (signal.aborted || isAbortError(error)) return;
+        settle({ status: "error", error: toAppError(error) });
+      }
+    );
+
+    return () => controller.abort();
+  }, [source, load, accession, attempt, dispatch]);
+}
+
+const loadEntry = (accession: string, signal: AbortSignal) =>
+  dataSource.fetchEntry(accession, { signal });
+const loadStructures = (accession: string, signal: AbortSignal) =>
+  dataSource.fetchStructures(accession, { signal });
+
+// Loads everything for `accession` (usually taken from the route) and
+// cancels in-flight requests as soon as it changes. `resolve` turns free
+// text into an accession; navigating to it is left to the caller. `retry`
+// reloads a single failed source.
+export function useProteinSearch(accession: string | null) {
+  const [state, dispatch] = useReducer(reducer, initialState);
+  const [attempts, setAttempts] = useState({ entry: 0, structures: 0 });
+  const resolveCounter = useRef(0);
+
+  useEffect(() => {
+    if (!accession) dispatch({ type: "reset" });
+  }, [accession]);
+  useSource("entry", loadEntry, accession, attempts.entry, dispatch);
+  useSource(
+    "structures",
+    loadStructures,
+    accession,
+    attempts.structures,
+    dispatch
+  );
+
+  const retry = useCallback((source: SearchSource) => {
+    setAttempts((current) => ({ ...current, [source]: current[source] + 1 }));
+  }, []);
+
+  const resolve = useCallback(async (query: string) => {
+    const id = ++resolveCounter.current;
+    dispatch({ type: "resolve-start", query });
+    const resolution = (await loadIdentifierResolver()).resolve(query);
+    // A newer search superseded this one while the resolver was loading
+    if (id !== resolveCounter.current) return null;
+    if (resolution.status !== "resolved") {
+      dispatch({ type: "resolve-failed", resolution });
+      return null;
+    }
+    dispatch({ type: "resolved", accession: resolution.candidate.accession });
+    return resolution.candidate.accession;
+  }, []);
+
+  return { state, resolve, retry };
+}
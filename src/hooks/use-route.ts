@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatRoute, parseRoute, Route } from "@/lib/routes";
+
+export interface NavigateOptions {
+  // Update the current history entry instead of adding one
+  replace?: boolean;
+}
+
+export function useRoute() {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location));
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location));
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  // Like setState, accepts a function of the current route, which is read
+  // from the location so that delayed updates don't undo newer ones
+  const navigate = useCallback(
+    (
+      next: Route | ((current: Route) => Route),
+      { replace = false }: NavigateOptions = {}
+    ) => {
+      const url = formatRoute(
+        typeof next === "function" ? next(parseRoute(window.location)) : next
+      );
+      if (url !== window.location.pathname + window.location.search) {
+        if (replace) window.history.replaceState(null, "", url);
+        else window.history.pushState(null, "", url);
+      }
+      setRoute(parseRoute(window.location));
+    },
+    []
+  );
+
+  return [route, navigate] as const;
+}
@@ -0,0 +1,118 @@
+import type { TrackShape } from "@/lib/feature-tracks";
+import type { SequenceColoring } from "@/lib/residue-mapping";
+import type { UniProtFeature } from "@/lib/uniprot";
+
+export interface AnnotationCategory {
+  id: string;
+  label: string;
+  types: string[];
+  // Bonds only color their two end residues
+  shape: TrackShape;
+  color: string;
+}
+
+// Categories the structure can be colored by, in painting order: later
+// categories are drawn over earlier ones, so single sites stay visible on
+// top of the domains they sit in.
+export const ANNOTATION_CATEGORIES: AnnotationCategory[] = [
+  {
+    id: "domains",
+    label: "Domains",
+    types: ["Domain", "Repeat", "Zinc finger", "DNA binding"],
+    shape: "span",
+    color: "#6366f1",
+  },
+  {
+    id: "transmembrane",
+    label: "Transmembrane",
+    types: ["Transmembrane", "Intramembrane"],
+    shape: "span",
+    color: "#0ea5e9",
+  },
+  {
+    id: "binding",
+    label: "Active & binding sites",
+    types: ["Active site", "Binding site", "Site"],
+    shape: "site",
+    color: "#f59e0b",
+  },
+  {
+    id: "modifications",
+    label: "PTMs",
+    types: [
+      "Modified residue",
+      "Glycosylation",
+      "Lipidation",
+      "Cross-link",
+      "Disulfide bond",
+    ],
+    shape: "bond",
+    color: "#10b981",
+  },
+  {
+    id: "variants",
+    label: "Variant positions",
+    types: ["Natural variant"],
+    shape: "site",
+    color: "#f43f5e",
+  },
+];
+
+// Residues without any of the selected annotations
+export const UNANNOTATED_COLOR = "#d1d5db";
+
+// "default" keeps the viewer's own coloring, "all" paints every category
+export type ColorByMode = "default" | "all" | string;
+
+// For modes read from URLs
+export function isColorByMode(value: string): value is ColorByMode {
+  return (
+    value === "default" ||
+    value === "all" ||
+    ANNOTATION_CATEGORIES.some(({ id }) => id === value)
+  );
+}
+
+export function selectedCategories(mode: ColorByMode) {
+  if (mode === "default") return [];
+  if (mode === "all") return ANNOTATION_CATEGORIES;
+  return ANNOTATION_CATEGORIES.filter(({ id }) => id === mode);
+}
+
+function featureRegions({ start, end }: UniProtFeature, shape: TrackShape) {
+  if (shape === "bond" && end > start) {
+    return [
+      { start, end: start },
+      { start: end, end },
+    ];
+  }
+  return [{ start, end }];
+}
+
+// Colors for the features of the chosen categories, in painting order
+export function annotationColoring(
+  features: UniProtFeature[],
+  categories: AnnotationCategory[]
+): SequenceColoring {
+  const regions = categories.flatMap((category) =>
+    features
+      .filter((feature) => category.types.includes(feature.type))
+      .flatMap((feature) =>
+        featureRegions(feature, category.shape).map((region) => ({
+          region,
+          color: category.color,
+        }))
+      )
+  );
+  return { regions, fallback: UNANNOTATED_COLOR };
+}
+
+export function categoryCounts(features: UniProtFeature[]) {
+  return new Map(
+    ANNOTATION_CATEGORIES.map((category) => [
+      category.id,
+      features.filter((feature) => category.types.includes(feature.type))
+        .length,
+    ])
+  );
+}
@@ -0,0 +1,139 @@
+// Typed view of the 3D Beacons `uniprot/summary/{accession}.json` response.
+// Like `uniprot.ts`, this is the only module that reads the raw JSON.
+
+export interface StructureEntity {
+  type: string;
+  polyType: string | null;
+  identifier: string | null;
+  identifierCategory: string | null;
+  description: string | null;
+  chainIds: string[];
+}
+
+export interface StructureSummary {
+  id: string;
+  provider: string;
+  category: string;
+  url: string;
+  format: string | null;
+  pageUrl: string | null;
+  method: string | null;
+  resolution: number | null;
+  uniprotStart: number;
+  uniprotEnd: number;
+  coverage: number | null;
+  created: string | null;
+  confidenceType: string | null;
+  confidenceAvgScore: number | null;
+  entities: StructureEntity[];
+}
+
+export class BeaconsSchemaError extends Error {
+  constructor(path: string, expected: string) {
+    super(`Unexpected 3D Beacons response: ${path} is not ${expected}`);
+    this.name = "BeaconsSchemaError";
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+function object(value: unknown, path: string): RawObject {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new BeaconsSchemaError(path, "an object");
+  }
+  return value as RawObject;
+}
+
+function array(value: unknown, path: string): unknown[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new BeaconsSchemaError(path, "an array");
+  return value;
+}
+
+function string(value: unknown, path: string): string {
+  if (typeof value !== "string") {
+    throw new BeaconsSchemaError(path, "a string");
+  }
+  return value;
+}
+
+function optionalString(value: unknown, path: string): string | null {
+  return value === undefined || value === null ? null : string(value, path);
+}
+
+function optionalNumber(value: unknown, path: string): number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new BeaconsSchemaError(path, "a number");
+  }
+  return value;
+}
+
+function normalizeEntity(raw: unknown, path: string): StructureEntity {
+  const entity = object(raw, path);
+  return {
+    type: string(entity.entity_type, `${path}.entity_type`),
+    polyType: optionalString(
+      entity.entity_poly_type,
+      `${path}.entity_poly_type`
+    ),
+    identifier: optionalString(entity.identifier, `${path}.identifier`),
+    identifierCategory: optionalString(
+      entity.identifier_category,
+      `${path}.identifier_category`
+    ),
+    description: optionalString(entity.description, `${path}.description`),
+    chainIds: array(entity.chain_ids, `${path}.chain_ids`).map((chainId, i) =>
+      string(chainId, `${path}.chain_ids[${i}]`)
+    ),
+  };
+}
+
+function normalizeSummary(raw: unknown, path: string): StructureSummary {
+  const structure = object(raw, path);
+  const summary = object(structure.summary, `${path}.summary`);
+  const p = `${path}.summary`;
+  const uniprotStart = optionalNumber(
+    summary.uniprot_start,
+    `${p}.uniprot_start`
+  );
+  const uniprotEnd = optionalNumber(summary.uniprot_end, `${p}.uniprot_end`);
+  if (uniprotStart === null || uniprotEnd === null) {
+    throw new BeaconsSchemaError(`${p}.uniprot_start/end`, "a residue range");
+  }
+  return {
+    id: string(summary.model_identifier, `${p}.model_identifier`),
+    provider: string(summary.provider, `${p}.provider`),
+    category: string(summary.model_category, `${p}.model_category`),
+    url: string(summary.model_url, `${p}.model_url`),
+    format: optionalString(summary.model_format, `${p}.model_format`),
+    pageUrl: optionalString(summary.model_page_url, `${p}.model_page_url`),
+    method: optionalString(
+      summary.experimental_method,
+      `${p}.experimental_method`
+    ),
+    resolution: optionalNumber(summary.resolution, `${p}.resolution`),
+    uniprotStart,
+    uniprotEnd,
+    coverage: optionalNumber(summary.coverage, `${p}.coverage`),
+    created: optionalString(summary.created, `${p}.created`),
+    confidenceType: optionalString(
+      summary.confidence_type,
+      `${p}.confidence_type`
+    ),
+    confidenceAvgScore: optionalNumber(
+      summary.confidence_avg_local_score,
+      `${p}.confidence_avg_local_score`
+    ),
+    entities: array(summary.entities, `${p}.entities`).map((entity, i) =>
+      normalizeEntity(entity, `${p}.entities[${i}]`)
+    ),
+  };
+}
+
+export function normalizeStructureSummaries(raw: unknown): StructureSummary[] {
+  const response = object(raw, "response");
+  return array(response.structures, "structures").map((structure, i) =>
+    normalizeSummary(structure, `structures[${i}]`)
+  );
+}
@@ -0,0 +1,55 @@
+import type { StructureSummary } from "@/lib/beacons";
+import { baseAccession } from "@/lib/identifiers";
+import type { ModelChain } from "@/lib/residue-mapping";
+
+// Polymer chains of a structure that belong to the same protein
+export interface ChainGroup {
+  chainIds: string[];
+  accession: string | null;
+  description: string | null;
+  // Whether this is the UniProt entry being viewed
+  queried: boolean;
+}
+
+// UniProt accession of each polymer chain: from the provider's entity
+// mapping (SIFTS for PDBe) where it has one, otherwise from the file's own
+// struct_ref records. Chains without either stay unassigned.
+export function assignChains(
+  summary: StructureSummary,
+  accession: string,
+  chains: ModelChain[]
+): ChainGroup[] {
+  const groups = new Map<string, ChainGroup>();
+  for (const chain of chains) {
+    const entity = summary.entities.find(
+      (candidate) =>
+        candidate.identifierCategory === "UNIPROT" &&
+        candidate.chainIds.includes(chain.chainId)
+    );
+    const chainAccession = entity?.identifier ?? chain.accessions[0] ?? null;
+    const key = chainAccession ?? `entity:${chain.entityId}`;
+    const group = groups.get(key);
+    if (group) {
+      group.chainIds.push(chain.chainId);
+      continue;
+    }
+    groups.set(key, {
+      chainIds: [chain.chainId],
+      accession: chainAccession,
+      description: entity?.description ?? chain.description,
+      queried:
+        chainAccession !== null &&
+        baseAccession(chainAccession) === baseAccession(accession),
+    });
+  }
+  // The queried protein first, then partners in chain order
+  return Array.from(groups.values()).sort(
+    (a, b) => Number(b.queried) - Number(a.queried)
+  );
+}
+
+export function queriedChainIds(groups: ChainGroup[]) {
+  return groups
+    .filter(({ queried }) => queried)
+    .flatMap(({ chainIds }) => chainIds);
+}
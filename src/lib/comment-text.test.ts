@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { tokenizeCommentText } from "@/lib/comment-text";
+
+const text = (value: string) => [{ type: "text", value }];
+
+describe("tokenizeCommentText", () => {
+  it("keeps plain text, abbreviations and species names intact", () => {
+    const value =
+      "Binds DNA, e.g. at p21 promoters. Also found in M. musculus and S. cerevisiae.";
+    expect(tokenizeCommentText(value)).toEqual(text(value));
+  });
+
+  it("keeps raw HTML as text", () => {
+    const value =
+      'Inhibits <b>growth</b> <script>alert("x")</script><img src=x onerror=alert(1)>';
+    expect(tokenizeCommentText(value)).toEqual(text(value));
+  });
+
+  it("returns nothing for empty text", () => {
+    expect(tokenizeCommentText("")).toEqual([]);
+  });
+
+  it("groups consecutive PubMed references", () => {
+    expect(
+      tokenizeCommentText("Interacts (PubMed:9153395, PubMed:9194564).")
+    ).toEqual([
+      { type: "text", value: "Interacts (" },
+      { type: "pubmed", ids: ["9153395", "9194564"] },
+      { type: "text", value: ")." },
+    ]);
+  });
+
+  it("parses evidence tags", () => {
+    expect(
+      tokenizeCommentText(
+        "Acts as a tumor suppressor {ECO:0000269|PubMed:10097131, ECO:0000305}."
+      )
+    ).toEqual([
+      { type: "text", value: "Acts as a tumor suppressor " },
+      {
+        type: "evidence",
+        evidences: [
+          { code: "ECO:0000269", source: "PubMed", id: "10097131" },
+          { code: "ECO:0000305", source: null, id: null },
+        ],
+      },
+      { type: "text", value: "." },
+    ]);
+  });
+
+  it("links UniProtKB accessions, including isoforms", () => {
+    expect(
+      tokenizeCommentText(
+        "Binds MDM2 (UniProtKB:Q00987) and UniProtKB:P12345-2."
+      )
+    ).toEqual([
+      { type: "text", value: "Binds MDM2 (" },
+      { type: "uniprot", accession: "Q00987" },
+      { type: "text", value: ") and " },
+      { type: "uniprot", accession: "P12345-2" },
+      { type: "text", value: "." },
+    ]);
+  });
+
+  it("leaves accession-like text with trailing characters alone", () => {
+    expect(tokenizeCommentText("UniProtKB:P12345X")).toEqual(
+      text("UniProtKB:P12345X")
+    );
+    expect(tokenizeCommentText("UniProtKB:P1234")).toEqual(
+      text("UniProtKB:P1234")
+    );
+    expect(tokenizeCommentText("PubMed:abc")).toEqual(text("PubMed:abc"));
+  });
+
+  it("links markdown links to web pages", () => {
+    expect(
+      tokenizeCommentText("See [the IARC database](https://p53.iarc.fr/).")
+    ).toEqual([
+      { type: "text", value: "See " },
+      {
+        type: "link",
+        label: "the IARC database",
+        href: "https://p53.iarc.fr/",
+      },
+      { type: "text", value: "." },
+    ]);
+  });
+
+  it("falls back to the label for links that are not web pages", () => {
+    expect(
+      tokenizeCommentText("Click [here](javascript:alert(1)) or [there](/x).")
+    ).toEqual(text("Click [here](javascript:alert(1)) or there."));
+    expect(tokenizeCommentText("[here](javascript:void)")).toEqual(
+      text("here")
+    );
+  });
+
+  it("keeps nested and unclosed brackets as text", () => {
+    for (const value of [
+      "[a [b]](https://example.org)",
+      "[unclosed](https://example.org",
+      "[unclosed label(https://example.org)",
+      "]backwards[(https://example.org)",
+    ]) {
+      expect(tokenizeCommentText(value)).toEqual(text(value));
+    }
+  });
+
+  it("links only the innermost bracketed label", () => {
+    expect(tokenizeCommentText("[[x](https://example.org)]")).toEqual([
+      { type: "text", value: "[" },
+      { type: "link", label: "x", href: "https://example.org/" },
+      { type: "text", value: "]" },
+    ]);
+  });
+
+  it("keeps an unclosed evidence tag as text around its references", () => {
+    expect(tokenizeCommentText("{ECO:0000269|PubMed:1")).toEqual([
+      { type: "text", value: "{ECO:0000269|" },
+      { type: "pubmed", ids: ["1"] },
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import type { UniProtEvidence } from "@/lib/uniprot";
+
+// Pieces of a UniProt comment such as "Interacts with MDM2
+// (UniProtKB:Q00987) (PubMed:9153395, PubMed:9194564)". Everything that
+// isn't a recognised reference stays plain text, so markup in the source is
+// shown as written rather than interpreted.
+export type CommentToken =
+  | { type: "text"; value: string }
+  // One or more consecutive "PubMed:123" references
+  | { type: "pubmed"; ids: string[] }
+  // "{ECO:0000269|PubMed:10097131, ECO:0000305}" as in flat-file text
+  | { type: "evidence"; evidences: UniProtEvidence[] }
+  | { type: "uniprot"; accession: string }
+  // Markdown-style "[label](https://...)"
+  | { type: "link"; label: string; href: string };
+
+const EVIDENCE = String.raw`\{ECO:\d{7}(?:\|[^,{}]+)?(?:,\s*ECO:\d{7}(?:\|[^,{}]+)?)*\}`;
+// Labels can't contain brackets, so "[[x](https://...)]" links just "x"
+const MARKDOWN_LINK = String.raw`\[([^[\]\n]+)\]\(([^()\s]+)\)`;
+const PUBMED = String.raw`PubMed:\d+(?:,\s*PubMed:\d+)*`;
+// https://www.uniprot.org/help/accession_numbers, optionally with an isoform
+// suffix; the word boundary keeps "P12345X" from matching
+const UNIPROT = String.raw`UniProtKB:((?:[OPQ][0-9][A-Z0-9]{3}[0-9]|[A-NR-Z][0-9](?:[A-Z][A-Z0-9]{2}[0-9]){1,2})(?:-\d+)?)\b`;
+
+const TOKEN = new RegExp(
+  `(${EVIDENCE})|${MARKDOWN_LINK}|(${PUBMED})|${UNIPROT}`,
+  "g"
+);
+
+function parseEvidences(tag: string): UniProtEvidence[] {
+  return tag
+    .slice(1, -1)
+    .split(",")
+    .map((part) => {
+      const [code, reference = ""] = part.trim().split("|");
+      const separator = reference.indexOf(":");
+      return separator > 0
+        ? {
+            code,
+            source: reference.slice(0, separator),
+            id: reference.slice(separator + 1),
+          }
+        : { code, source: reference || null, id: null };
+    });
+}
+
+// Only web links are followed; anything else ("javascript:", relative
+// paths) keeps its label as plain text
+function safeHref(href: string) {
+  try {
+    const url = new URL(href);
+    return url.protocol === "https:" || url.protocol === "http:"
+      ? url.href
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function tokenizeCommentText(text: string): CommentToken[] {
+  const tokens: CommentToken[] = [];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = tokens[tokens.length - 1];
+    if (last?.type === "text") last.value += value;
+    else tokens.push({ type: "text", value });
+  };
+
+  let end = 0;
+  for (const match of text.matchAll(TOKEN)) {
+    const [whole, evidence, label, href, pubmed, accession] = match;
+    const start = match.index ?? 0;
+    pushText(text.slice(end, start));
+    end = start + whole.length;
+    if (evidence) {
+      tokens.push({ type: "evidence", evidences: parseEvidences(evidence) });
+    } else if (label !== undefined) {
+      const safe = safeHref(href);
+      if (safe) tokens.push({ type: "link", label, href: safe });
+      else pushText(label);
+    } else if (pubmed) {
+      tokens.push({ type: "pubmed", ids: pubmed.match(/\d+/g) ?? [] });
+    } else {
+      tokens.push({ type: "uniprot", accession });
+    }
+  }
+  pushText(text.slice(end));
+  return tokens;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { confidenceBand, PLDDT_BANDS } from "@/lib/confidence";
+
+const [veryHigh, confident, low, veryLow] = PLDDT_BANDS;
+
+describe("confidenceBand", () => {
+  it("puts boundary scores in the higher band", () => {
+    expect(confidenceBand(90)).toBe(veryHigh);
+    expect(confidenceBand(70)).toBe(confident);
+    expect(confidenceBand(50)).toBe(low);
+  });
+
+  it("puts scores just below a boundary in the lower band", () => {
+    expect(confidenceBand(89.99)).toBe(confident);
+    expect(confidenceBand(69.99)).toBe(low);
+    expect(confidenceBand(49.99)).toBe(veryLow);
+  });
+
+  it("covers the whole scale", () => {
+    expect(confidenceBand(100)).toBe(veryHigh);
+    expect(confidenceBand(0)).toBe(veryLow);
+    expect(confidenceBand(-1)).toBe(veryLow);
+  });
+});
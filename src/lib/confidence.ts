@@ -0,0 +1,129 @@
+import type { StructureSummary } from "@/lib/beacons";
+import type { ModelResidue } from "@/lib/residue-mapping";
+import type { ResidueColoring } from "@/lib/viewer";
+
+// 3D Beacons model categories for computed models
+const PREDICTED_CATEGORIES = ["TEMPLATE-BASED", "AB-INITIO", "DEEP-LEARNING"];
+
+export function isPredicted(summary: StructureSummary) {
+  return PREDICTED_CATEGORIES.includes(summary.category);
+}
+
+export interface ConfidenceBand {
+  label: string;
+  // Lowest score in the band
+  min: number;
+  color: string;
+}
+
+// The bands and colors AlphaFold DB uses, highest first. A score on a
+// boundary belongs to the higher band.
+export const PLDDT_BANDS: ConfidenceBand[] = [
+  { label: "Very high (≥ 90)", min: 90, color: "#0053d6" },
+  { label: "Confident (70–90)", min: 70, color: "#65cbf3" },
+  { label: "Low (50–70)", min: 50, color: "#ffdb13" },
+  { label: "Very low (< 50)", min: -Infinity, color: "#ff7d45" },
+];
+
+export function confidenceBand(score: number) {
+  return (
+    PLDDT_BANDS.find(({ min }) => score >= min) ??
+    PLDDT_BANDS[PLDDT_BANDS.length - 1]
+  );
+}
+
+// Predicted models keep the per-residue confidence in the B-factor column.
+// AlphaFold writes pLDDT (0-100); SWISS-MODEL's QMEANDisCo is 0-1 and is
+// scaled up to the same bands.
+export function confidenceColoring(residues: ModelResidue[]): ResidueColoring {
+  const scale = residues.some(({ bFactor }) => bFactor > 1) ? 1 : 100;
+  return {
+    ranges: residues.map(({ chainId, seqId, bFactor }) => ({
+      range: { chainIds: [chainId], start: seqId, end: seqId },
+      color: confidenceBand(bFactor * scale).color,
+    })),
+    fallback: PLDDT_BANDS[PLDDT_BANDS.length - 1].color,
+  };
+}
+
+export interface PredictedAlignedError {
+  // Number of residues; values is size x size, row-major
+  size: number;
+  // Expected position error in Å of residue j when aligned on residue i
+  values: number[];
+  max: number;
+}
+
+export class PaeSchemaError extends Error {
+  constructor(path: string, expected: string) {
+    super(`Unexpected PAE file: ${path} is not ${expected}`);
+    this.name = "PaeSchemaError";
+  }
+}
+
+function numbers(value: unknown, path: string): number[] {
+  if (!Array.isArray(value) || value.some((n) => typeof n !== "number")) {
+    throw new PaeSchemaError(path, "an array of numbers");
+  }
+  return value;
+}
+
+// AlphaFold DB PAE files are a one-element array. Version 3 onwards holds
+// the full matrix; earlier files list it as residue1/residue2/distance
+// triples (1-based residues).
+export function normalizePae(raw: unknown): PredictedAlignedError {
+  const record = Array.isArray(raw) ? raw[0] : raw;
+  if (typeof record !== "object" || record === null) {
+    throw new PaeSchemaError("[0]", "an object");
+  }
+  const pae = record as Record<string, unknown>;
+  if (Array.isArray(pae.predicted_aligned_error)) {
+    const rows = pae.predicted_aligned_error.map((row, i) =>
+      numbers(row, `predicted_aligned_error[${i}]`)
+    );
+    const size = rows.length;
+    if (rows.some((row) => row.length !== size)) {
+      throw new PaeSchemaError("predicted_aligned_error", "a square matrix");
+    }
+    const values = rows.flat();
+    return {
+      size,
+      values,
+      max:
+        typeof pae.max_predicted_aligned_error === "number"
+          ? pae.max_predicted_aligned_error
+          : values.reduce((max, value) => Math.max(max, value), 0),
+    };
+  }
+  const residue1 = numbers(pae.residue1, "residue1");
+  const residue2 = numbers(pae.residue2, "residue2");
+  const distance = numbers(pae.distance, "distance");
+  const size = residue1.reduce((max, residue) => Math.max(max, residue), 0);
+  if (
+    residue2.length !== residue1.length ||
+    distance.length !== residue1.length ||
+    residue1.length !== size * size
+  ) {
+    throw new PaeSchemaError("residue1/residue2/distance", "a square matrix");
+  }
+  const values = new Array<number>(size * size).fill(0);
+  distance.forEach((value, i) => {
+    values[(residue1[i] - 1) * size + residue2[i] - 1] = value;
+  });
+  return {
+    size,
+    values,
+    max: distance.reduce((max, value) => Math.max(max, value), 0),
+  };
+}
+
+// Only AlphaFold DB publishes PAE files, next to the model:
+// AF-P04637-F1-model_v4.cif -> AF-P04637-F1-predicted_aligned_error_v4.json
+export function paeUrl(summary: StructureSummary) {
+  if (summary.provider !== "AlphaFold DB") return null;
+  const match = summary.url.match(/-model_v(\d+)\.(?:cif|bcif|pdb)$/);
+  if (!match || match.index === undefined) return null;
+  return `${summary.url.slice(0, match.index)}-predicted_aligned_error_v${
+    match[1]
+  }.json`;
+}
@@ -0,0 +1,224 @@
+import { isTransient } from "@/lib/errors";
+import type { DataSource, RequestOptions } from "./types";
+
+// IndexedDB-backed response cache. Values are stored as the typed models the
+// data sources return, so bump CACHE_VERSION whenever UniProtEntry or
+// StructureSummary change shape; opening a newer version drops old records.
+const CACHE_VERSION = 4;
+const DB_NAME = "protein-explorer-cache";
+const META_STORE = "meta";
+const DATA_STORE = "data";
+
+export type CacheBucket = "entry" | "structures" | "structure-file" | "pae";
+
+export interface CacheOptions {
+  ttl: Record<CacheBucket, number>;
+  maxBytes: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+export const DEFAULT_CACHE_OPTIONS: CacheOptions = {
+  ttl: {
+    entry: 7 * 24 * HOUR,
+    structures: 24 * HOUR,
+    "structure-file": 30 * 24 * HOUR,
+    pae: 30 * 24 * HOUR,
+  },
+  maxBytes: 250 * 1024 * 1024,
+};
+
+interface CacheMeta {
+  key: string;
+  bucket: CacheBucket;
+  size: number;
+  storedAt: number;
+  lastAccess: number;
+}
+
+export interface CacheHit<T> {
+  value: T;
+  expired: boolean;
+}
+
+export interface ResponseCache {
+  get<T>(bucket: CacheBucket, key: string): Promise<CacheHit<T> | null>;
+  set(bucket: CacheBucket, key: string, value: unknown): Promise<void>;
+  usage(): Promise<{ entries: number; bytes: number }>;
+  clear(): Promise<void>;
+}
+
+function request<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase() {
+  const open = indexedDB.open(DB_NAME, CACHE_VERSION);
+  open.onupgradeneeded = () => {
+    const db = open.result;
+    for (const name of Array.from(db.objectStoreNames)) {
+      db.deleteObjectStore(name);
+    }
+    db.createObjectStore(META_STORE, { keyPath: "key" }).createIndex(
+      "lastAccess",
+      "lastAccess"
+    );
+    db.createObjectStore(DATA_STORE);
+  };
+  return request(open);
+}
+
+function sizeOf(value: unknown) {
+  if (value instanceof ArrayBuffer) return value.byteLength;
+  return JSON.stringify(value)?.length ?? 0;
+}
+
+export function createResponseCache(
+  options: CacheOptions = DEFAULT_CACHE_OPTIONS
+): ResponseCache {
+  let db: Promise<IDBDatabase> | null = null;
+  const database = () => (db ??= openDatabase());
+  const storageKey = (bucket: CacheBucket, key: string) => `${bucket}:${key}`;
+
+  async function evict(idb: IDBDatabase) {
+    const tx = idb.transaction([META_STORE, DATA_STORE], "readwrite");
+    const meta = tx.objectStore(META_STORE);
+    const records: CacheMeta[] = await request(
+      meta.index("lastAccess").getAll()
+    );
+    let total = records.reduce((sum, record) => sum + record.size, 0);
+    // Records come back oldest access first
+    for (const record of records) {
+      if (total <= options.maxBytes) break;
+      meta.delete(record.key);
+      tx.objectStore(DATA_STORE).delete(record.key);
+      total -= record.size;
+    }
+    await transactionDone(tx);
+  }
+
+  return {
+    async get<T>(bucket: CacheBucket, key: string) {
+      const idb = await database();
+      const id = storageKey(bucket, key);
+      const tx = idb.transaction([META_STORE, DATA_STORE], "readwrite");
+      const meta: CacheMeta | undefined = await request(
+        tx.objectStore(META_STORE).get(id)
+      );
+      if (!meta) return null;
+      const value: T = await request(tx.objectStore(DATA_STORE).get(id));
+      const now = Date.now();
+      tx.objectStore(META_STORE).put({ ...meta, lastAccess: now });
+      await transactionDone(tx);
+      return { value, expired: now - meta.storedAt > options.ttl[bucket] };
+    },
+
+    async set(bucket, key, value) {
+      const idb = await database();
+      const id = storageKey(bucket, key);
+      const now = Date.now();
+      const meta: CacheMeta = {
+        key: id,
+        bucket,
+        size: sizeOf(value),
+        storedAt: now,
+        lastAccess: now,
+      };
+      if (meta.size > options.maxBytes) return;
+      const tx = idb.transaction([META_STORE, DATA_STORE], "readwrite");
+      tx.objectStore(META_STORE).put(meta);
+      tx.objectStore(DATA_STORE).put(value, id);
+      await transactionDone(tx);
+      await evict(idb);
+    },
+
+    async usage() {
+      const idb = await database();
+      const tx = idb.transaction(META_STORE, "readonly");
+      const records: CacheMeta[] = await request(
+        tx.objectStore(META_STORE).getAll()
+      );
+      return {
+        entries: records.length,
+        bytes: records.reduce((sum, record) => sum + record.size, 0),
+      };
+    },
+
+    async clear() {
+      const idb = await database();
+      const tx = idb.transaction([META_STORE, DATA_STORE], "readwrite");
+      tx.objectStore(META_STORE).clear();
+      tx.objectStore(DATA_STORE).clear();
+      await transactionDone(tx);
+    },
+  };
+}
+
+// Serves fresh cache hits without touching the network, and falls back to
+// expired records when the upstream request fails transiently (e.g. while
+// offline or rate limited).
+export function withCache(
+  source: DataSource,
+  cache: ResponseCache
+): DataSource {
+  async function cached<T>(
+    bucket: CacheBucket,
+    key: string,
+    load: () => Promise<T>,
+    { signal }: RequestOptions = {}
+  ): Promise<T> {
+    const hit = await cache.get<T>(bucket, key).catch((error) => {
+      console.warn("Response cache unavailable:", error);
+      return null;
+    });
+    if (hit && !hit.expired) return hit.value;
+    try {
+      const value = await load();
+      cache.set(bucket, key, value).catch((error) => {
+        console.warn("Failed to store response in cache:", error);
+      });
+      return value;
+    } catch (error) {
+      if (hit && !signal?.aborted && isTransient(error)) return hit.value;
+      throw error;
+    }
+  }
+
+  return {
+    name: `${source.name}+cache`,
+    fetchEntry: (accession, options) =>
+      cached(
+        "entry",
+        accession,
+        () => source.fetchEntry(accession, options),
+        options
+      ),
+    fetchStructures: (accession, options) =>
+      cached(
+        "structures",
+        accession,
+        () => source.fetchStructures(accession, options),
+        options
+      ),
+    fetchStructureFile: (url, options) =>
+      cached(
+        "structure-file",
+        url,
+        () => source.fetchStructureFile(url, options),
+        options
+      ),
+    fetchPae: (url, options) =>
+      cached("pae", url, () => source.fetchPae(url, options), options),
+  };
+}
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createFixtureDataSource,
+  FIXTURE_URL_PREFIX,
+} from "@/lib/data-sources/fixtures";
+
+const url = `${FIXTURE_URL_PREFIX}synthetic-P04637-model.cif`;
+
+describe("fetchStructureFile", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns the bundled file", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("data_model\n"))
+    );
+    const data = await createFixtureDataSource().fetchStructureFile(url);
+    expect(new TextDecoder().decode(data)).toBe("data_model\n");
+  });
+
+  it("reports a failed response instead of returning its body", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("Not found", { status: 404 }))
+    );
+    await expect(
+      createFixtureDataSource().fetchStructureFile(url)
+    ).rejects.toMatchObject({ kind: "entry-not-found" });
+  });
+
+  it("does not start loading once aborted", async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal("fetch", fetch);
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      createFixtureDataSource().fetchStructureFile(url, {
+        signal: controller.signal,
+      })
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
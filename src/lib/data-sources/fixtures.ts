@@ -0,0 +1,87 @@
+import { normalizeStructureSummaries } from "@/lib/beacons";
+import { AppError, responseError } from "@/lib/errors";
+import { normalizeUniProtEntry } from "@/lib/uniprot";
+import type { DataSource } from "./types";
+
+// Structure summaries in the bundled fixtures point at `fixture://<file>`,
+// which resolves to a file in src/fixtures/structures.
+export const FIXTURE_URL_PREFIX = "fixture://";
+
+const entries = import.meta.glob("../../fixtures/uniprot/*.json", {
+  import: "default",
+});
+const summaries = import.meta.glob("../../fixtures/beacons/*.json", {
+  import: "default",
+});
+const structureFiles = import.meta.glob("../../fixtures/structures/*", {
+  query: "?url",
+  import: "default",
+});
+
+function fixtureLoader(
+  modules: Record<string, () => Promise<unknown>>,
+  directory: string,
+  fileName: string
+) {
+  return modules[`../../fixtures/${directory}/${fileName}`];
+}
+
+export function createFixtureDataSource(): DataSource {
+  return {
+    name: "fixtures",
+
+    async fetchEntry(accession, { signal } = {}) {
+      signal?.throwIfAborted();
+      const load = fixtureLoader(entries, "uniprot", `${accession}.json`);
+      if (!load) {
+        throw new AppError(
+          "entry-not-found",
+          `No UniProt fixture bundled for ${accession}`
+        );
+      }
+      return normalizeUniProtEntry(await load());
+    },
+
+    async fetchStructures(accession, { signal } = {}) {
+      signal?.throwIfAborted();
+      const load = fixtureLoader(summaries, "beacons", `${accession}.json`);
+      if (!load) return [];
+      return normalizeStructureSummaries(await load());
+    },
+
+    async fetchStructureFile(url, { signal } = {}) {
+      signal?.throwIfAborted();
+      const fileName = url.startsWith(FIXTURE_URL_PREFIX)
+        ? url.slice(FIXTURE_URL_PREFIX.length)
+        : url.split("/").pop() ?? "";
+      const load = fixtureLoader(structureFiles, "structures", fileName);
+      if (!load) {
+        throw new AppError(
+          "entry-not-found",
+          `No structure fixture bundled for ${url}`
+        );
+      }
+      const response = await fetch((await load()) as string, { signal });
+      if (!response.ok) {
+        throw responseError(
+          response,
+          () =>
+            new AppError(
+              "entry-not-found",
+              `Structure fixture for ${url} is missing from the build`
+            ),
+          `Failed to load structure fixture ${url}`
+        );
+      }
+      return response.arrayBuffer();
+    },
+
+    async fetchPae(url, { signal } = {}) {
+      signal?.throwIfAborted();
+      throw new AppError(
+        "entry-not-found",
+        `No PAE fixture bundled for ${url}`
+      );
+    },
+  };
+}
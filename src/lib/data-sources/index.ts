@@ -0,0 +1,72 @@
+import { createResponseCache, withCache } from "./cache";
+import { createFixtureDataSource } from "./fixtures";
+import { createLocalStructureStore, withLocalStructures } from "./local";
+import {
+  createRemoteDataSource,
+  DEFAULT_REMOTE_CONFIG,
+  RemoteDataSourceConfig,
+} from "./remote";
+import type { DataSource } from "./types";
+
+export type { DataSource, RequestOptions } from "./types";
+export {
+  createResponseCache,
+  DEFAULT_CACHE_OPTIONS,
+  withCache,
+  type CacheBucket,
+  type CacheOptions,
+  type ResponseCache,
+} from "./cache";
+export { createFixtureDataSource, FIXTURE_URL_PREFIX } from "./fixtures";
+export {
+  createLocalStructureStore,
+  isLocalStructure,
+  LOCAL_PROVIDER,
+  LOCAL_URL_PREFIX,
+  withLocalStructures,
+  type LocalStructureStore,
+} from "./local";
+export {
+  createRemoteDataSource,
+  DEFAULT_REMOTE_CONFIG,
+  type RemoteDataSourceConfig,
+} from "./remote";
+
+// "from=to" pairs separated by commas, see RemoteDataSourceConfig.
+function parseMirrors(value: string | undefined) {
+  const mirrors: Record<string, string> = {};
+  value
+    ?.split(",")
+    .map((pair) => pair.trim())
+    .filter(Boolean)
+    .forEach((pair) => {
+      const separator = pair.indexOf("=");
+      if (separator > 0) {
+        mirrors[pair.slice(0, separator)] = pair.slice(separator + 1);
+      }
+    });
+  return mirrors;
+}
+
+export const responseCache = createResponseCache();
+export const localStructures = createLocalStructureStore();
+
+function createUpstreamDataSource(env: ImportMetaEnv) {
+  if (env.VITE_DATA_SOURCE === "fixtures") {
+    return createFixtureDataSource();
+  }
+  const config: RemoteDataSourceConfig = {
+    uniprotBaseUrl:
+      env.VITE_UNIPROT_BASE_URL || DEFAULT_REMOTE_CONFIG.uniprotBaseUrl,
+    beaconsBaseUrl:
+      env.VITE_BEACONS_BASE_URL || DEFAULT_REMOTE_CONFIG.beaconsBaseUrl,
+    structureMirrors: parseMirrors(env.VITE_STRUCTURE_MIRRORS),
+  };
+  return withCache(createRemoteDataSource(config), responseCache);
+}
+
+export function createDataSource(env: ImportMetaEnv = import.meta.env) {
+  return withLocalStructures(createUpstreamDataSource(env), localStructures);
+}
+
+export const dataSource: DataSource = createDataSource();
@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from "vitest";
+import { createLocalStructureStore } from "@/lib/data-sources/local";
+
+const file = (name: string) => new File(["data_model\n"], name);
+
+describe("createLocalStructureStore", () => {
+  it("notifies subscribers when files are added or removed", async () => {
+    const store = createLocalStructureStore();
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    const summary = await store.add(file("model.cif"), "P04637", 393);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.list("P04637")).toEqual([summary]);
+
+    store.remove(summary.id);
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(store.list("P04637")).toEqual([]);
+    expect(store.read(summary.url)).toBeUndefined();
+
+    unsubscribe();
+    await store.add(file("other.pdb"), "P04637", 393);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns the same list until something changes", async () => {
+    const store = createLocalStructureStore();
+    expect(store.list("P04637")).toBe(store.list("Q00987"));
+    await store.add(file("model.cif"), "P04637", 393);
+    const list = store.list("P04637");
+    expect(store.list("P04637")).toBe(list);
+    store.remove("local-unknown");
+    expect(store.list("P04637")).toBe(list);
+  });
+});
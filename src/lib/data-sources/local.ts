@@ -0,0 +1,118 @@
+import type { StructureSummary } from "@/lib/beacons";
+import { AppError } from "@/lib/errors";
+import type { DataSource } from "./types";
+
+// Structure files picked or dropped by the user. They only live for the
+// session and are addressed as `local://<id>/<file name>`, which keeps the
+// file name (and so its extension) available for format detection.
+export const LOCAL_URL_PREFIX = "local://";
+export const LOCAL_PROVIDER = "local";
+
+export interface LocalStructureStore {
+  add(file: File, accession: string, length: number): Promise<StructureSummary>;
+  list(accession: string): StructureSummary[];
+  remove(id: string): void;
+  read(url: string): ArrayBuffer | undefined;
+  // Calls `listener` after every add or remove; the returned function
+  // unsubscribes. list() results only change identity when notified.
+  subscribe(listener: () => void): () => void;
+}
+
+const NO_STRUCTURES: StructureSummary[] = [];
+
+export function isLocalStructure(summary: StructureSummary) {
+  return summary.provider === LOCAL_PROVIDER;
+}
+
+export function createLocalStructureStore(): LocalStructureStore {
+  const files = new Map<string, ArrayBuffer>();
+  const summaries = new Map<string, StructureSummary[]>();
+  const listeners = new Set<() => void>();
+  let counter = 0;
+  const notify = () => listeners.forEach((listener) => listener());
+
+  return {
+    async add(file, accession, length) {
+      const id = `local-${++counter}`;
+      const url = `${LOCAL_URL_PREFIX}${id}/${encodeURIComponent(file.name)}`;
+      files.set(url, await file.arrayBuffer());
+      const summary: StructureSummary = {
+        id,
+        provider: LOCAL_PROVIDER,
+        category: "LOCAL",
+        url,
+        format: null,
+        pageUrl: null,
+        method: file.name,
+        resolution: null,
+        // Assumed to use UniProt numbering over the whole sequence, as
+        // in-house AlphaFold runs do
+        uniprotStart: 1,
+        uniprotEnd: length,
+        coverage: null,
+        created: new Date(file.lastModified).toISOString().slice(0, 10),
+        confidenceType: null,
+        confidenceAvgScore: null,
+        entities: [],
+      };
+      summaries.set(accession, [...(summaries.get(accession) ?? []), summary]);
+      notify();
+      return summary;
+    },
+
+    list(accession) {
+      return summaries.get(accession) ?? NO_STRUCTURES;
+    },
+
+    remove(id) {
+      summaries.forEach((list, accession) => {
+        const removed = list.filter((summary) => summary.id === id);
+        if (removed.length === 0) return;
+        removed.forEach((summary) => files.delete(summary.url));
+        summaries.set(
+          accession,
+          list.filter((summary) => summary.id !== id)
+        );
+      });
+      notify();
+    },
+
+    read(url) {
+      return files.get(url);
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// Serves `local://` URLs from the store and passes everything else through.
+export function withLocalStructures(
+  source: DataSource,
+  store: LocalStructureStore
+): DataSource {
+  return {
+    name: `${source.name}+local`,
+    fetchEntry: (accession, options) => source.fetchEntry(accession, options),
+    fetchStructures: (accession, options) =>
+      source.fetchStructures(accession, options),
+    async fetchStructureFile(url, options) {
+      if (!url.startsWith(LOCAL_URL_PREFIX)) {
+        return source.fetchStructureFile(url, options);
+      }
+      const data = store.read(url);
+      if (!data) {
+        throw new AppError(
+          "entry-not-found",
+          `Local structure ${url} is no longer loaded`
+        );
+      }
+      return data;
+    },
+    fetchPae: (url, options) => source.fetchPae(url, options),
+  };
+}
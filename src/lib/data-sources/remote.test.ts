@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import fixture from "@/fixtures/uniprot/P04637.json";
+import { createRemoteDataSource } from "@/lib/data-sources/remote";
+import { AppError } from "@/lib/errors";
+
+function respondWith(primaryAccession: string) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () =>
+      Response.json({ ...structuredClone(fixture), primaryAccession })
+    )
+  );
+}
+
+describe("fetchEntry", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns the entry for its own accession", async () => {
+    respondWith("P04637");
+    const entry = await createRemoteDataSource().fetchEntry("P04637");
+    expect(entry.accession).toBe("P04637");
+  });
+
+  it("accepts isoform entries returned under the isoform accession", async () => {
+    respondWith("P04637-2");
+    const entry = await createRemoteDataSource().fetchEntry("P04637-2");
+    expect(entry.accession).toBe("P04637-2");
+  });
+
+  it("reports secondary accessions as merged", async () => {
+    respondWith("P04637");
+    const error = await createRemoteDataSource()
+      .fetchEntry("Q15086-2")
+      .catch((error) => error);
+    expect(error).toBeInstanceOf(AppError);
+    expect(error).toMatchObject({
+      kind: "obsolete-accession",
+      message: "Q15086-2 was merged into P04637",
+      details: { replacedBy: ["P04637"] },
+    });
+  });
+});
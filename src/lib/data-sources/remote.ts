@@ -0,0 +1,162 @@
+import { normalizeStructureSummaries } from "@/lib/beacons";
+import { normalizePae } from "@/lib/confidence";
+import { AppError, responseError, withRetry } from "@/lib/errors";
+import { baseAccession } from "@/lib/identifiers";
+import { normalizeInactiveReason, normalizeUniProtEntry } from "@/lib/uniprot";
+import type { DataSource } from "./types";
+
+export interface RemoteDataSourceConfig {
+  uniprotBaseUrl: string;
+  beaconsBaseUrl: string;
+  // Maps an upstream URL prefix to a mirror prefix, e.g.
+  // { "https://alphafold.ebi.ac.uk": "https://mirror.example.org/alphafold" }.
+  structureMirrors: Record<string, string>;
+}
+
+export const DEFAULT_REMOTE_CONFIG: RemoteDataSourceConfig = {
+  uniprotBaseUrl: "https://rest.uniprot.org/uniprotkb",
+  beaconsBaseUrl: "https://www.ebi.ac.uk/pdbe/pdbe-kb/3dbeacons/api/v2",
+  structureMirrors: {},
+};
+
+function trimSlash(url: string) {
+  return url.replace(/\/+$/, "");
+}
+
+export function rewriteMirroredUrl(
+  url: string,
+  mirrors: Record<string, string>
+) {
+  for (const [upstream, mirror] of Object.entries(mirrors)) {
+    if (url.startsWith(upstream)) {
+      return mirror + url.slice(upstream.length);
+    }
+  }
+  return url;
+}
+
+export function createRemoteDataSource(
+  config: RemoteDataSourceConfig = DEFAULT_REMOTE_CONFIG
+): DataSource {
+  const uniprotBaseUrl = trimSlash(config.uniprotBaseUrl);
+  const beaconsBaseUrl = trimSlash(config.beaconsBaseUrl);
+
+  return {
+    name: "remote",
+
+    fetchEntry: (accession, { signal } = {}) =>
+      withRetry(
+        async () => {
+          const response = await fetch(`${uniprotBaseUrl}/${accession}`, {
+            signal,
+          });
+          if (!response.ok) {
+            throw responseError(
+              response,
+              () =>
+                new AppError(
+                  "entry-not-found",
+                  `UniProtKB has no entry ${accession}`
+                ),
+              "Failed to fetch UniProt data"
+            );
+          }
+          const raw = await response.json();
+          const inactive = normalizeInactiveReason(raw);
+          if (inactive) {
+            throw new AppError(
+              "obsolete-accession",
+              inactive.replacedBy.length > 0
+                ? `${accession} is obsolete (${inactive.type.toLowerCase()})`
+                : `${accession} was deleted from UniProtKB`,
+              { replacedBy: inactive.replacedBy }
+            );
+          }
+          const entry = normalizeUniProtEntry(raw);
+          // Secondary accessions of merged entries redirect to the new entry.
+          // Isoform requests ("P04637-2") come back under the isoform's own
+          // accession, so only the part before the suffix is compared.
+          if (baseAccession(entry.accession) !== baseAccession(accession)) {
+            throw new AppError(
+              "obsolete-accession",
+              `${accession} was merged into ${entry.accession}`,
+              { replacedBy: [entry.accession] }
+            );
+          }
+          return entry;
+        },
+        { signal }
+      ),
+
+    fetchStructures: (accession, { signal } = {}) =>
+      withRetry(
+        async () => {
+          const response = await fetch(
+            `${beaconsBaseUrl}/uniprot/summary/${accession}.json`,
+            { signal }
+          );
+          // 3D Beacons answers 404 for accessions without any models
+          if (response.status === 404) return [];
+          if (!response.ok) {
+            throw responseError(
+              response,
+              () =>
+                new AppError(
+                  "entry-not-found",
+                  `3D Beacons has no summary for ${accession}`
+                ),
+              "Failed to fetch 3D Beacons structure summary"
+            );
+          }
+          return normalizeStructureSummaries(await response.json());
+        },
+        { signal }
+      ),
+
+    fetchStructureFile: (url, { signal } = {}) =>
+      withRetry(
+        async () => {
+          const response = await fetch(
+            rewriteMirroredUrl(url, config.structureMirrors),
+            { signal }
+          );
+          if (!response.ok) {
+            throw responseError(
+              response,
+              () =>
+                new AppError(
+                  "entry-not-found",
+                  `Structure file ${url} does not exist`
+                ),
+              `Failed to download structure file ${url}`
+            );
+          }
+          return response.arrayBuffer();
+        },
+        { signal }
+      ),
+
+    fetchPae: (url, { signal } = {}) =>
+      withRetry(
+        async () => {
+          const response = await fetch(
+            rewriteMirroredUrl(url, config.structureMirrors),
+            { signal }
+          );
+          if (!response.ok) {
+            throw responseError(
+              response,
+              () =>
+                new AppError(
+                  "entry-not-found",
+                  `PAE file ${url} does not exist`
+                ),
+              `Failed to download PAE file ${url}`
+            );
+          }
+          return normalizePae(await response.json());
+        },
+        { signal }
+      ),
+  };
+}
@@ -0,0 +1,31 @@
+import type { StructureSummary } from "@/lib/beacons";
+import type { PredictedAlignedError } from "@/lib/confidence";
+import type { UniProtEntry } from "@/lib/uniprot";
+
+// Everything the explorer loads from the outside world goes through a
+// DataSource, so the UI can run against EBI, a mirror or bundled fixtures.
+export interface DataSource {
+  name: string;
+  fetchEntry(
+    accession: string,
+    options?: RequestOptions
+  ): Promise<UniProtEntry>;
+  fetchStructures(
+    accession: string,
+    options?: RequestOptions
+  ): Promise<StructureSummary[]>;
+  fetchStructureFile(
+    url: string,
+    options?: RequestOptions
+  ): Promise<ArrayBuffer>;
+  // Predicted aligned error of a model, see paeUrl
+  fetchPae(
+    url: string,
+    options?: RequestOptions
+  ): Promise<PredictedAlignedError>;
+}
+
+export interface RequestOptions {
+  // Aborting rejects the pending request with an "AbortError" DOMException
+  signal?: AbortSignal;
+}
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AppError,
+  parseRetryAfter,
+  responseError,
+  toAppError,
+  withRetry,
+} from "@/lib/errors";
+import { UniProtSchemaError } from "@/lib/uniprot";
+
+const notFound = () => new AppError("entry-not-found", "No entry for P04637");
+
+const failWith = (status: number, headers?: HeadersInit) =>
+  responseError(new Response(null, { status, headers }), notFound, "UniProt");
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2024-05-01T12:00:00Z");
+
+  it("reads a delay in seconds", () => {
+    expect(parseRetryAfter("120", now)).toBe(120_000);
+    expect(parseRetryAfter("0", now)).toBe(0);
+  });
+
+  it("reads an HTTP date", () => {
+    expect(parseRetryAfter("Wed, 01 May 2024 12:00:30 GMT", now)).toBe(30_000);
+    expect(parseRetryAfter("Wed, 01 May 2024 11:00:00 GMT", now)).toBe(0);
+  });
+
+  it("ignores missing or unreadable values", () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+  });
+});
+
+describe("responseError", () => {
+  it("maps the status onto an error kind", () => {
+    expect(failWith(404).kind).toBe("entry-not-found");
+    expect(failWith(410).kind).toBe("entry-not-found");
+    expect(failWith(429).kind).toBe("rate-limited");
+    expect(failWith(408).kind).toBe("network");
+    expect(failWith(503).kind).toBe("network");
+    expect(failWith(400).kind).toBe("malformed-response");
+  });
+
+  it("describes the request and keeps Retry-After", () => {
+    expect(failWith(429, { "Retry-After": "2" })).toMatchObject({
+      message: "UniProt: the server is rate limiting requests",
+      details: { retryAfter: 2000 },
+    });
+    expect(failWith(502).message).toBe(
+      "UniProt: the server responded with 502"
+    );
+  });
+});
+
+describe("toAppError", () => {
+  it("classifies schema, parse and fetch failures", () => {
+    expect(
+      toAppError(new UniProtSchemaError("sequence", "an object"))
+    ).toMatchObject({
+      kind: "malformed-response",
+    });
+    expect(toAppError(new SyntaxError("Unexpected token"))).toMatchObject({
+      kind: "malformed-response",
+    });
+    expect(toAppError(new TypeError("Failed to fetch"))).toMatchObject({
+      kind: "network",
+    });
+  });
+
+  it("passes abort and unknown errors through", () => {
+    const abort = new DOMException("Aborted", "AbortError");
+    expect(toAppError(abort)).toBe(abort);
+    const error = new Error("other");
+    expect(toAppError(error)).toBe(error);
+  });
+});
+
+describe("withRetry", () => {
+  const options = { retries: 2, baseDelay: 100, maxDelay: 1000 };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("retries transient failures with exponential backoff", async () => {
+    const load = vi
+      .fn()
+      .mockRejectedValueOnce(failWith(503))
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValue("entry");
+    const result = withRetry(load, options);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(49);
+    expect(load).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(load).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(load).toHaveBeenCalledTimes(3);
+    await expect(result).resolves.toBe("entry");
+  });
+
+  it("waits as long as Retry-After asks, up to maxDelay", async () => {
+    const load = vi
+      .fn()
+      .mockRejectedValueOnce(failWith(429, { "Retry-After": "0.3" }))
+      .mockRejectedValueOnce(failWith(429, { "Retry-After": "60" }))
+      .mockResolvedValue("entry");
+    const result = withRetry(load, options);
+
+    await vi.advanceTimersByTimeAsync(299);
+    expect(load).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(load).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(result).resolves.toBe("entry");
+  });
+
+  it("gives up after the last retry", async () => {
+    const load = vi.fn().mockRejectedValue(failWith(503));
+    const result = withRetry(load, options);
+    const assertion = expect(result).rejects.toMatchObject({ kind: "network" });
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry permanent failures", async () => {
+    const load = vi.fn().mockRejectedValue(failWith(404));
+    await expect(withRetry(load, options)).rejects.toMatchObject({
+      kind: "entry-not-found",
+    });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops waiting when aborted during the backoff", async () => {
+    const controller = new AbortController();
+    const load = vi.fn().mockRejectedValue(failWith(503));
+    const result = withRetry(load, { ...options, signal: controller.signal });
+    const assertion = expect(result).rejects.toMatchObject({
+      name: "AbortError",
+    });
+
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+    await assertion;
+    await vi.runAllTimersAsync();
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+});
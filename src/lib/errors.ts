@@ -0,0 +1,170 @@
+import { BeaconsSchemaError } from "@/lib/beacons";
+import { PaeSchemaError } from "@/lib/confidence";
+import { UniProtSchemaError } from "@/lib/uniprot";
+
+export type AppErrorKind =
+  | "unknown-identifier"
+  | "entry-not-found"
+  | "obsolete-accession"
+  | "rate-limited"
+  | "network"
+  | "malformed-response"
+  | "unsupported-format";
+
+export interface AppErrorDetails {
+  // Accessions an obsolete entry was merged or demerged into
+  replacedBy?: string[];
+  // Delay requested by the server (Retry-After), in milliseconds
+  retryAfter?: number;
+  cause?: unknown;
+}
+
+export class AppError extends Error {
+  readonly kind: AppErrorKind;
+  readonly details: AppErrorDetails;
+
+  constructor(
+    kind: AppErrorKind,
+    message: string,
+    details: AppErrorDetails = {}
+  ) {
+    super(message);
+    this.name = "AppError";
+    this.kind = kind;
+    this.details = details;
+  }
+}
+
+export const ERROR_TITLES: Record<AppErrorKind, string> = {
+  "unknown-identifier": "Unknown identifier",
+  "entry-not-found": "Entry not found",
+  "obsolete-accession": "Obsolete accession",
+  "rate-limited": "Too many requests",
+  network: "Network error",
+  "malformed-response": "Unexpected response",
+  "unsupported-format": "Unsupported format",
+};
+
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+// Worth retrying: the same request may well succeed a moment later
+export function isTransient(error: unknown) {
+  return (
+    error instanceof AppError &&
+    (error.kind === "rate-limited" || error.kind === "network")
+  );
+}
+
+// Maps anything thrown while loading data onto the taxonomy above. Abort
+// errors are passed through untouched so callers can still ignore them.
+export function toAppError(error: unknown): AppError | unknown {
+  if (error instanceof AppError || isAbortError(error)) return error;
+  if (
+    error instanceof UniProtSchemaError ||
+    error instanceof BeaconsSchemaError ||
+    error instanceof PaeSchemaError ||
+    error instanceof SyntaxError
+  ) {
+    return new AppError("malformed-response", error.message, { cause: error });
+  }
+  // fetch() rejects with a TypeError when the request never got a response
+  if (error instanceof TypeError) {
+    return new AppError("network", "The server could not be reached", {
+      cause: error,
+    });
+  }
+  return error;
+}
+
+// Seconds or an HTTP date, see RFC 9110 section 10.2.3
+export function parseRetryAfter(value: string | null, now = Date.now()) {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Turns a failed response into the matching error, `notFound` describing
+// what a 404 means for this particular request.
+export function responseError(
+  response: Response,
+  notFound: () => AppError,
+  description: string
+) {
+  if (response.status === 404 || response.status === 410) return notFound();
+  if (response.status === 429) {
+    return new AppError(
+      "rate-limited",
+      `${description}: the server is rate limiting requests`,
+      { retryAfter: parseRetryAfter(response.headers.get("Retry-After")) }
+    );
+  }
+  if (response.status >= 500 || response.status === 408) {
+    return new AppError(
+      "network",
+      `${description}: the server responded with ${response.status}`
+    );
+  }
+  return new AppError(
+    "malformed-response",
+    `${description}: the server responded with ${response.status}`
+  );
+}
+
+export interface RetryOptions {
+  retries: number;
+  // Delay before the first retry, doubled for every further attempt
+  baseDelay: number;
+  maxDelay: number;
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelay: 500,
+  maxDelay: 8000,
+};
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Retries transient failures with exponential backoff and full jitter,
+// honouring Retry-After when the server sends one.
+export async function withRetry<T>(
+  load: () => Promise<T>,
+  options: Partial<RetryOptions> = {}
+): Promise<T> {
+  const { retries, baseDelay, maxDelay, signal } = {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...options,
+  };
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await load();
+    } catch (caught) {
+      const error = toAppError(caught);
+      if (attempt >= retries || !isTransient(error) || signal?.aborted) {
+        throw error;
+      }
+      const backoff =
+        Math.random() * Math.min(maxDelay, baseDelay * 2 ** attempt);
+      const retryAfter = (error as AppError).details.retryAfter;
+      await sleep(Math.min(maxDelay, retryAfter ?? backoff), signal);
+    }
+  }
+}
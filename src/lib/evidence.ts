@@ -0,0 +1,26 @@
+import type { UniProtEvidence } from "@/lib/uniprot";
+
+// The ECO codes UniProtKB uses, see https://www.uniprot.org/help/evidences
+const ECO_LABELS: Record<string, string> = {
+  "ECO:0000269": "Experimental evidence",
+  "ECO:0000303": "Non-traceable author statement",
+  "ECO:0000305": "Curator inference",
+  "ECO:0000250": "By similarity",
+  "ECO:0000255": "Sequence analysis",
+  "ECO:0000256": "Automatic annotation (sequence model)",
+  "ECO:0000259": "Automatic annotation (domain signature)",
+  "ECO:0000312": "Imported information",
+  "ECO:0000313": "Imported information (automatic)",
+  "ECO:0007744": "Combinatorial evidence (experimental and computational)",
+  "ECO:0007829": "Combinatorial evidence (large-scale data)",
+};
+
+export function evidenceLabel(code: string) {
+  return ECO_LABELS[code] ?? code;
+}
+
+// "Experimental evidence (PubMed:20364130)"
+export function describeEvidence({ code, source, id }: UniProtEvidence) {
+  const reference = source && id ? ` (${source}:${id})` : "";
+  return `${evidenceLabel(code)}${reference}`;
+}
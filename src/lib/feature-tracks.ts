@@ -0,0 +1,100 @@
+import type { UniProtFeature } from "@/lib/uniprot";
+
+export type TrackShape = "span" | "site" | "bond";
+
+export interface TrackDefinition {
+  id: string;
+  label: string;
+  types: string[];
+  shape: TrackShape;
+  // Tailwind fill class for the track's features
+  color: string;
+}
+
+// The feature tracks under the sequence, in display order. Feature types are
+// UniProtKB's, see https://www.uniprot.org/help/sequence_annotation
+export const FEATURE_TRACKS: TrackDefinition[] = [
+  {
+    id: "domains",
+    label: "Domains",
+    types: ["Domain", "Repeat", "Zinc finger", "DNA binding"],
+    shape: "span",
+    color: "fill-indigo-500",
+  },
+  {
+    id: "regions",
+    label: "Regions",
+    types: ["Region", "Motif", "Coiled coil", "Compositional bias"],
+    shape: "span",
+    color: "fill-sky-500",
+  },
+  {
+    id: "sites",
+    label: "Active & binding sites",
+    types: ["Active site", "Binding site", "Site"],
+    shape: "site",
+    color: "fill-amber-500",
+  },
+  {
+    id: "modifications",
+    label: "Modified residues",
+    types: ["Modified residue", "Glycosylation", "Lipidation", "Cross-link"],
+    shape: "site",
+    color: "fill-emerald-500",
+  },
+  {
+    id: "disulfides",
+    label: "Disulfide bonds",
+    types: ["Disulfide bond"],
+    shape: "bond",
+    color: "fill-yellow-600",
+  },
+  {
+    id: "variants",
+    label: "Natural variants",
+    types: ["Natural variant"],
+    shape: "site",
+    color: "fill-rose-500",
+  },
+];
+
+export interface TrackLayout {
+  track: TrackDefinition;
+  // Features split into rows so that none overlap within a row
+  rows: UniProtFeature[][];
+}
+
+// Greedy interval packing: each feature goes into the first row whose last
+// feature ends before it starts.
+function packRows(features: UniProtFeature[]) {
+  const rows: UniProtFeature[][] = [];
+  [...features]
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .forEach((feature) => {
+      const row = rows.find((r) => r[r.length - 1].end < feature.start);
+      if (row) row.push(feature);
+      else rows.push([feature]);
+    });
+  return rows;
+}
+
+export function layoutTracks(features: UniProtFeature[]): TrackLayout[] {
+  return FEATURE_TRACKS.map((track) => ({
+    track,
+    rows: packRows(
+      features.filter((feature) => track.types.includes(feature.type))
+    ),
+  })).filter(({ rows }) => rows.length > 0);
+}
+
+// "R175H", "R248Q/W" or "Missing" for natural variants
+export function describeVariant(feature: UniProtFeature) {
+  const change = feature.alternativeSequence;
+  if (!change) return null;
+  if (change.alternatives.length === 0) return "Missing";
+  const position =
+    feature.start === feature.end
+      ? `${feature.start}`
+      : `${feature.start}-${feature.end}`;
+  return `${change.original}${position}${change.alternatives.join("/")}`;
+}
@@ -0,0 +1,59 @@
+// Shared between the identifier index build step (plugins/identifier-index.ts)
+// and the runtime resolver, so it must not use the "@/" alias.
+
+export interface IdentifierRecord {
+  symbol: string;
+  aliases: string[];
+  previousSymbols: string[];
+  ensemblGeneId: string | null;
+  entrezId: string | null;
+  accessions: string[];
+}
+
+// [symbol, accessions, aliases, previous symbols, Ensembl gene, Entrez gene],
+// lists joined with "|" and trailing empty fields dropped.
+type IdentifierTuple = string[];
+
+function encodeIdentifierRecord(record: IdentifierRecord): IdentifierTuple {
+  const tuple = [
+    record.symbol,
+    record.accessions.join("|"),
+    record.aliases.join("|"),
+    record.previousSymbols.join("|"),
+    record.ensemblGeneId ?? "",
+    record.entrezId ?? "",
+  ];
+  while (tuple.length > 1 && tuple[tuple.length - 1] === "") tuple.pop();
+  return tuple;
+}
+
+function list(value: string | undefined) {
+  return value ? value.split("|") : [];
+}
+
+function decodeIdentifierRecord(tuple: IdentifierTuple): IdentifierRecord {
+  const [symbol, accessions, aliases, previousSymbols, ensembl, entrez] = tuple;
+  return {
+    symbol,
+    accessions: list(accessions),
+    aliases: list(aliases),
+    previousSymbols: list(previousSymbols),
+    ensemblGeneId: ensembl || null,
+    entrezId: entrez || null,
+  };
+}
+
+// The generated index is one string with a tab-separated tuple per line,
+// which is smaller than the equivalent JSON and trivial to split.
+export function serializeIdentifierIndex(records: IdentifierRecord[]) {
+  return records
+    .map((record) => encodeIdentifierRecord(record).join("\t"))
+    .join("\n");
+}
+
+export function parseIdentifierIndex(payload: string): IdentifierRecord[] {
+  return payload
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => decodeIdentifierRecord(line.split("\t")));
+}
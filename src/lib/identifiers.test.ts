@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import {
+  createIdentifierResolver,
+  IdentifierRecord,
+  normalizeQuery,
+  Resolution,
+} from "@/lib/identifiers";
+
+const record = (
+  symbol: string,
+  accessions: string[],
+  fields: Partial<IdentifierRecord> = {}
+): IdentifierRecord => ({
+  symbol,
+  aliases: [],
+  previousSymbols: [],
+  ensemblGeneId: null,
+  entrezId: null,
+  accessions,
+  ...fields,
+});
+
+const resolver = createIdentifierResolver([
+  record("TP53", ["P04637"], {
+    aliases: ["P53", "LFS1"],
+    ensemblGeneId: "ENSG00000141510",
+    entrezId: "7157",
+  }),
+  record("CDKN2A", ["P42771", "Q8N726"], {
+    aliases: ["ARF", "p16"],
+    previousSymbols: ["MTS1"],
+  }),
+  record("ARFRP1", ["Q13795"], { aliases: ["ARF"] }),
+  record("BRCA1", ["P38398"]),
+]);
+
+const resolvedTo = (query: string) => {
+  const resolution = resolver.resolve(query);
+  return resolution.status === "resolved"
+    ? resolution.candidate.accession
+    : resolution.status;
+};
+
+describe("normalizeQuery", () => {
+  it("strips database prefixes and FASTA headers", () => {
+    expect(normalizeQuery(" UniProtKB:P04637 ")).toBe("P04637");
+    expect(normalizeQuery("uniprot:P04637")).toBe("P04637");
+    expect(normalizeQuery("sp|P04637|P53_HUMAN")).toBe("P04637");
+    expect(normalizeQuery(">tr|q8n726|CD2A2_HUMAN Tumor suppressor ARF")).toBe(
+      "Q8N726"
+    );
+    expect(normalizeQuery("GeneID:7157")).toBe("7157");
+    expect(normalizeQuery("ensembl:ENSG00000141510.18")).toBe(
+      "ENSG00000141510.18"
+    );
+  });
+
+  it("leaves other input alone", () => {
+    expect(normalizeQuery("TP53")).toBe("TP53");
+    expect(normalizeQuery("HLA-A")).toBe("HLA-A");
+  });
+});
+
+describe("createIdentifierResolver", () => {
+  it("resolves accessions, with or without a prefix", () => {
+    expect(resolvedTo("P04637")).toBe("P04637");
+    expect(resolvedTo("UniProtKB:P04637")).toBe("P04637");
+    expect(resolvedTo("sp|P04637|P53_HUMAN")).toBe("P04637");
+    expect(resolver.resolve("p04637")).toMatchObject({
+      status: "resolved",
+      candidate: { symbol: "TP53", matchedBy: "accession" },
+    });
+  });
+
+  it("keeps the isoform suffix of an accession", () => {
+    expect(resolver.resolve("P04637-2")).toMatchObject({
+      status: "resolved",
+      candidate: { accession: "P04637-2", symbol: "TP53" },
+    });
+    expect(resolvedTo("UniProtKB:p04637-2")).toBe("P04637-2");
+  });
+
+  it("resolves symbols regardless of case", () => {
+    expect(resolver.resolve("tp53")).toEqual<Resolution>({
+      status: "resolved",
+      query: "tp53",
+      candidate: { accession: "P04637", symbol: "TP53", matchedBy: "symbol" },
+    });
+    expect(resolver.resolve("Brca1")).toMatchObject({
+      status: "resolved",
+      candidate: { accession: "P38398" },
+    });
+  });
+
+  it("resolves Ensembl gene IDs with or without a version", () => {
+    for (const query of ["ENSG00000141510", "ENSG00000141510.18"]) {
+      expect(resolver.resolve(query)).toMatchObject({
+        status: "resolved",
+        candidate: { accession: "P04637", matchedBy: "ensembl" },
+      });
+    }
+  });
+
+  it("resolves Entrez gene IDs, also as GeneID:", () => {
+    for (const query of ["7157", "GeneID:7157"]) {
+      expect(resolver.resolve(query)).toMatchObject({
+        status: "resolved",
+        candidate: { accession: "P04637", matchedBy: "entrez" },
+      });
+    }
+  });
+
+  it("resolves aliases and previous symbols", () => {
+    expect(resolver.resolve("lfs1")).toMatchObject({
+      status: "resolved",
+      candidate: { accession: "P04637", matchedBy: "alias" },
+    });
+    expect(resolver.resolve("MTS1")).toMatchObject({
+      status: "ambiguous",
+      candidates: [
+        { accession: "P42771", matchedBy: "previous-symbol" },
+        { accession: "Q8N726", matchedBy: "previous-symbol" },
+      ],
+    });
+  });
+
+  it("returns every accession for an alias shared by several genes", () => {
+    const resolution = resolver.resolve("ARF");
+    expect(resolution.status).toBe("ambiguous");
+    expect(
+      resolution.status === "ambiguous" &&
+        resolution.candidates.map(({ accession, symbol }) => [
+          accession,
+          symbol,
+        ])
+    ).toEqual([
+      ["P42771", "CDKN2A"],
+      ["Q8N726", "CDKN2A"],
+      ["Q13795", "ARFRP1"],
+    ]);
+  });
+
+  it("suggests symbols for unknown input", () => {
+    const resolution = resolver.resolve("TP35");
+    expect(resolution).toMatchObject({ status: "unresolved", query: "TP35" });
+    expect(
+      resolution.status === "unresolved" &&
+        resolution.suggestions.map(({ symbol }) => symbol)
+    ).toEqual(["TP53"]);
+    expect(resolver.resolve("not a gene")).toEqual<Resolution>({
+      status: "unresolved",
+      query: "not a gene",
+      suggestions: [],
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import {
+  IdentifierRecord,
+  parseIdentifierIndex,
+} from "@/lib/identifier-records";
+import {
+  createSymbolIndex,
+  SymbolIndex,
+  SymbolMatch,
+} from "@/lib/symbol-index";
+
+export type { IdentifierRecord } from "@/lib/identifier-records";
+
+export type IdentifierKind =
+  | "accession"
+  | "symbol"
+  | "alias"
+  | "previous-symbol"
+  | "ensembl"
+  | "entrez";
+
+export interface IdentifierCandidate {
+  accession: string;
+  symbol: string | null;
+  matchedBy: IdentifierKind;
+}
+
+export type Resolution =
+  | { status: "resolved"; query: string; candidate: IdentifierCandidate }
+  | { status: "ambiguous"; query: string; candidates: IdentifierCandidate[] }
+  | { status: "unresolved"; query: string; suggestions: SymbolMatch[] };
+
+export interface IdentifierResolver {
+  symbols: SymbolIndex;
+  resolve(query: string): Resolution;
+}
+
+// https://www.uniprot.org/help/accession_numbers, optionally with an isoform suffix
+const UNIPROT_ACCESSION =
+  /^(?:[OPQ][0-9][A-Z0-9]{3}[0-9]|[A-NR-Z][0-9](?:[A-Z][A-Z0-9]{2}[0-9]){1,2})(?:-\d+)?$/;
+const ENSEMBL_GENE = /^ENSG\d{11}(?:\.\d+)?$/;
+const ENTREZ_GENE = /^\d+$/;
+
+// "P04637-2" -> "P04637"; isoforms share their canonical entry's accession
+export function baseAccession(accession: string) {
+  return accession.replace(/-\d+$/, "");
+}
+
+// Pipelines hand us identifiers like "UniProtKB:P04637", "sp|P04637|P53_HUMAN",
+// "ENSG00000141510.18" or "GeneID:7157"; reduce them to the bare identifier.
+export function normalizeQuery(query: string) {
+  const trimmed = query.trim();
+  const fastaHeader = trimmed.match(/^>?(?:sp|tr)\|([^|]+)\|/i);
+  if (fastaHeader) return fastaHeader[1].toUpperCase();
+  return trimmed
+    .replace(/^(?:uniprotkb|uniprot|geneid|entrez|ncbigene|ensembl):/i, "")
+    .trim();
+}
+
+export function createIdentifierResolver(
+  records: IdentifierRecord[]
+): IdentifierResolver {
+  const bySymbol = new Map<string, IdentifierRecord>();
+  const byAlias = new Map<string, IdentifierRecord[]>();
+  const byPreviousSymbol = new Map<string, IdentifierRecord[]>();
+  const byEnsembl = new Map<string, IdentifierRecord[]>();
+  const byEntrez = new Map<string, IdentifierRecord[]>();
+  const byAccession = new Map<string, IdentifierRecord>();
+
+  const push = (
+    map: Map<string, IdentifierRecord[]>,
+    key: string,
+    record: IdentifierRecord
+  ) => map.set(key, [...(map.get(key) ?? []), record]);
+
+  records.forEach((record) => {
+    bySymbol.set(record.symbol.toUpperCase(), record);
+    record.aliases.forEach((alias) =>
+      push(byAlias, alias.toUpperCase(), record)
+    );
+    record.previousSymbols.forEach((symbol) =>
+      push(byPreviousSymbol, symbol.toUpperCase(), record)
+    );
+    if (record.ensemblGeneId) {
+      push(
+        byEnsembl,
+        record.ensemblGeneId.toUpperCase().replace(/\.\d+$/, ""),
+        record
+      );
+    }
+    if (record.entrezId) push(byEntrez, record.entrezId, record);
+    record.accessions.forEach((accession) =>
+      byAccession.set(accession, record)
+    );
+  });
+
+  const symbols = createSymbolIndex(
+    Object.fromEntries(
+      records.map((record) => [record.symbol, record.accessions[0]])
+    )
+  );
+
+  const toCandidates = (
+    matches: IdentifierRecord[],
+    matchedBy: IdentifierKind
+  ): IdentifierCandidate[] =>
+    matches.flatMap((record) =>
+      record.accessions.map((accession) => ({
+        accession,
+        symbol: record.symbol,
+        matchedBy,
+      }))
+    );
+
+  const fromCandidates = (
+    query: string,
+    candidates: IdentifierCandidate[]
+  ): Resolution =>
+    candidates.length === 1
+      ? { status: "resolved", query, candidate: candidates[0] }
+      : { status: "ambiguous", query, candidates };
+
+  return {
+    symbols,
+
+    resolve(rawQuery) {
+      const query = normalizeQuery(rawQuery);
+      const key = query.toUpperCase();
+
+      const symbol = bySymbol.get(key);
+      if (symbol) {
+        return fromCandidates(query, toCandidates([symbol], "symbol"));
+      }
+
+      // Keep an isoform suffix: "P04637-2" loads the isoform, not P04637
+      if (UNIPROT_ACCESSION.test(key)) {
+        return {
+          status: "resolved",
+          query,
+          candidate: {
+            accession: key,
+            symbol: byAccession.get(baseAccession(key))?.symbol ?? null,
+            matchedBy: "accession",
+          },
+        };
+      }
+
+      if (ENSEMBL_GENE.test(key)) {
+        const matches = byEnsembl.get(key.replace(/\.\d+$/, ""));
+        if (matches) {
+          return fromCandidates(query, toCandidates(matches, "ensembl"));
+        }
+      }
+      if (ENTREZ_GENE.test(key)) {
+        const matches = byEntrez.get(key);
+        if (matches) {
+          return fromCandidates(query, toCandidates(matches, "entrez"));
+        }
+      }
+
+      // Aliases and previous symbols are frequently shared between genes
+      const previous = byPreviousSymbol.get(key) ?? [];
+      const aliases = (byAlias.get(key) ?? []).filter(
+        (record) => !previous.includes(record)
+      );
+      const candidates = [
+        ...toCandidates(previous, "previous-symbol"),
+        ...toCandidates(aliases, "alias"),
+      ];
+      if (candidates.length > 0) return fromCandidates(query, candidates);
+
+      return {
+        status: "unresolved",
+        query,
+        suggestions: symbols.didYouMean(query),
+      };
+    },
+  };
+}
+
+let identifierResolver: Promise<IdentifierResolver> | null = null;
+
+export function loadIdentifierResolver() {
+  // Generated at build time from data/identifier_mapping.tsv and split into
+  // its own chunk, see plugins/identifier-index.ts
+  identifierResolver ??= import("virtual:identifier-index")
+    .then((index) => parseIdentifierIndex(index.default))
+    .catch((error) => {
+      console.error("Error loading identifier index:", error);
+      return [];
+    })
+    .then(createIdentifierResolver);
+  return identifierResolver;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import fixture from "@/fixtures/uniprot/P04637.json";
+import { toBibTeX, toRIS } from "@/lib/literature";
+import { normalizeUniProtEntry, UniProtReference } from "@/lib/uniprot";
+
+const { references } = normalizeUniProtEntry(structuredClone(fixture));
+// Zakut-Houri 1985, PubMed ID but no DOI
+const cdna = references[0];
+// Rieger 1996, a submission without title, DOI or PubMed ID
+const submission = references[1];
+// Cho 1994, with DOI and PubMed ID
+const structure = references[3];
+
+const bibtexKeys = (bibtex: string) =>
+  Array.from(bibtex.matchAll(/^@\w+\{([^,]+),$/gm), (match) => match[1]);
+
+describe("toBibTeX", () => {
+  it("writes an entry per reference", () => {
+    expect(toBibTeX([structure])).toBe(
+      [
+        "@article{Cho1994,",
+        "  title = {Crystal structure of a p53 tumor suppressor-DNA complex: understanding tumorigenic mutations.},",
+        "  author = {Cho Y. and Gorina S. and Jeffrey P.D. and Pavletich N.P.},",
+        "  journal = {Science},",
+        "  year = {1994},",
+        "  volume = {265},",
+        "  pages = {346--355},",
+        "  doi = {10.1126/science.8023157},",
+        "  pmid = {8023157}",
+        "}",
+      ].join("\n")
+    );
+  });
+
+  it("drops braces and escapes TeX specials", () => {
+    const reference: UniProtReference = {
+      ...structure,
+      title: "The {p53} & {MDM2} loop: 90% of #1 hits_in $vivo\\",
+      journal: "Genes & Dev.",
+    };
+    const bibtex = toBibTeX([reference]);
+    expect(bibtex).toContain(
+      "  title = {The p53 \\& MDM2 loop: 90\\% of \\#1 hits\\_in \\$vivo},"
+    );
+    expect(bibtex).toContain("  journal = {Genes \\& Dev.},");
+  });
+
+  it("keeps keys unique for papers by the same author in the same year", () => {
+    const sameYear = (number: number, title: string): UniProtReference => ({
+      ...structure,
+      number,
+      title,
+    });
+    expect(
+      bibtexKeys(
+        toBibTeX([
+          structure,
+          sameYear(20, "A second paper"),
+          sameYear(21, "A third paper"),
+          cdna,
+        ])
+      )
+    ).toEqual(["Cho1994", "Cho1994a", "Cho1994b", "ZakutHouri1985"]);
+  });
+
+  it("leaves out missing identifiers and fields", () => {
+    expect(toBibTeX([cdna])).not.toContain("doi = ");
+    expect(toBibTeX([submission])).toBe(
+      [
+        "@misc{Rieger1996,",
+        "  author = {Rieger E. and Fritz B.},",
+        "  year = {1996}",
+        "}",
+      ].join("\n")
+    );
+  });
+});
+
+describe("toRIS", () => {
+  it("writes one AU line per author", () => {
+    const lines = toRIS([structure]).split("\r\n");
+    expect(lines.filter((line) => line.startsWith("AU  - "))).toEqual([
+      "AU  - Cho Y.",
+      "AU  - Gorina S.",
+      "AU  - Jeffrey P.D.",
+      "AU  - Pavletich N.P.",
+    ]);
+    expect(lines).toContain("DO  - 10.1126/science.8023157");
+  });
+
+  it("links PubMed without a DOI", () => {
+    expect(toRIS([cdna])).toBe(
+      [
+        "TY  - JOUR",
+        "TI  - Human p53 cellular tumor antigen: cDNA sequence and expression in COS cells.",
+        "AU  - Zakut-Houri R.",
+        "AU  - Bienz-Tadmor B.",
+        "AU  - Givol D.",
+        "AU  - Oren M.",
+        "PY  - 1985",
+        "DA  - 1985///",
+        "JO  - EMBO J.",
+        "VL  - 4",
+        "SP  - 1251",
+        "EP  - 1255",
+        "AN  - PMID:4006916",
+        "UR  - https://pubmed.ncbi.nlm.nih.gov/4006916/",
+        "ER  - ",
+      ].join("\r\n")
+    );
+  });
+
+  it("writes references without any identifier", () => {
+    expect(toRIS([submission])).toBe(
+      [
+        "TY  - GEN",
+        "AU  - Rieger E.",
+        "AU  - Fritz B.",
+        "PY  - 1996",
+        "DA  - 1996/04//",
+        "ER  - ",
+      ].join("\r\n")
+    );
+  });
+
+  it("separates records with a blank line", () => {
+    const records = toRIS([cdna, submission]).split("\r\n\r\n");
+    expect(records).toHaveLength(2);
+    expect(records.every((record) => record.endsWith("ER  - "))).toBe(true);
+  });
+});
@@ -0,0 +1,212 @@
+import type { UniProtReference } from "@/lib/uniprot";
+
+export type ReferenceScope = "function" | "structure" | "variant";
+
+export const REFERENCE_SCOPES: { value: ReferenceScope; label: string }[] = [
+  { value: "function", label: "Function" },
+  { value: "structure", label: "Structure" },
+  { value: "variant", label: "Variants" },
+];
+
+// Matched against the reference positions ("what the entry cites it for")
+const SCOPE_PATTERNS: Record<ReferenceScope, RegExp> = {
+  function: /\bFUNCTION\b/,
+  structure:
+    /X-RAY CRYSTALLOGRAPHY|STRUCTURE BY NMR|ELECTRON MICROSCOPY|3D-STRUCTURE/,
+  variant: /\bVARIANTS?\b|\bMUTAGENESIS\b/,
+};
+
+export interface LiteratureFilter {
+  text: string;
+  fromYear: number | null;
+  toYear: number | null;
+  scope: ReferenceScope | null;
+  category: string | null;
+}
+
+export const EMPTY_LITERATURE_FILTER: LiteratureFilter = {
+  text: "",
+  fromYear: null,
+  toYear: null,
+  scope: null,
+  category: null,
+};
+
+// UniProt dates are "1985", "2001-07" or "2001-07-31"
+function dateParts(reference: UniProtReference) {
+  const match = reference.publicationDate?.match(
+    /^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?/
+  );
+  if (!match) return null;
+  return {
+    year: Number(match[1]),
+    month: match[2] ? Number(match[2]) : null,
+    day: match[3] ? Number(match[3]) : null,
+  };
+}
+
+export function publicationYear(reference: UniProtReference) {
+  return dateParts(reference)?.year ?? null;
+}
+
+export function referenceScopes(reference: UniProtReference) {
+  return REFERENCE_SCOPES.map(({ value }) => value).filter((scope) =>
+    reference.positions.some((position) => SCOPE_PATTERNS[scope].test(position))
+  );
+}
+
+export function pubmedId(reference: UniProtReference) {
+  return (
+    reference.crossReferences.find(({ database }) => database === "PubMed")
+      ?.id ?? null
+  );
+}
+
+export function doi(reference: UniProtReference) {
+  return (
+    reference.crossReferences.find(({ database }) => database === "DOI")?.id ??
+    null
+  );
+}
+
+// Newest first. A bare year sorts after the dated papers of that year, and
+// undated references come last; ties keep UniProt's reference order. Returns
+// a new array.
+export function sortReferences(references: UniProtReference[]) {
+  const key = (reference: UniProtReference) => {
+    const date = dateParts(reference);
+    return date
+      ? date.year * 10000 + (date.month ?? 0) * 100 + (date.day ?? 0)
+      : -Infinity;
+  };
+  return [...references].sort((a, b) => key(b) - key(a) || a.number - b.number);
+}
+
+export function filterReferences(
+  references: UniProtReference[],
+  filter: LiteratureFilter
+) {
+  const text = filter.text.trim().toLowerCase();
+  return references.filter((reference) => {
+    const year = publicationYear(reference);
+    return (
+      (!text || (reference.title ?? "").toLowerCase().includes(text)) &&
+      (filter.fromYear === null ||
+        (year !== null && year >= filter.fromYear)) &&
+      (filter.toYear === null || (year !== null && year <= filter.toYear)) &&
+      (!filter.scope || referenceScopes(reference).includes(filter.scope)) &&
+      (!filter.category || reference.sourceCategories.includes(filter.category))
+    );
+  });
+}
+
+export function sourceCategories(references: UniProtReference[]) {
+  return Array.from(
+    new Set(references.flatMap((reference) => reference.sourceCategories))
+  ).sort((a, b) => a.localeCompare(b));
+}
+
+const pages = ({ firstPage, lastPage }: UniProtReference) =>
+  firstPage && lastPage && lastPage !== firstPage
+    ? { first: firstPage, last: lastPage }
+    : firstPage
+    ? { first: firstPage, last: null }
+    : null;
+
+// UniProt writes authors as "Surname I.J."
+const surname = (author: string) => author.split(" ")[0];
+
+// Braces and backslashes would end the field early; the rest are TeX
+// specials that reference managers expect escaped
+function bibtexValue(value: string) {
+  return value.replace(/[{}\\]/g, "").replace(/([&%$#_])/g, "\\$1");
+}
+
+function bibtexKey(reference: UniProtReference, used: Set<string>) {
+  const author = reference.authors[0]
+    ? surname(reference.authors[0]).replace(/[^A-Za-z0-9]/g, "")
+    : "UniProt";
+  const base = `${author || "UniProt"}${publicationYear(reference) ?? ""}`;
+  let key = base;
+  // Smith2001, Smith2001a, Smith2001b, ...
+  for (let n = 0; used.has(key); n++) {
+    key = `${base}${n < 26 ? String.fromCharCode(97 + n) : n}`;
+  }
+  used.add(key);
+  return key;
+}
+
+export function toBibTeX(references: UniProtReference[]) {
+  const used = new Set<string>();
+  return references
+    .map((reference) => {
+      const range = pages(reference);
+      const fields: [string, string | number | null][] = [
+        ["title", reference.title],
+        [
+          "author",
+          reference.authors.length > 0 ? reference.authors.join(" and ") : null,
+        ],
+        ["journal", reference.journal],
+        ["year", publicationYear(reference)],
+        ["volume", reference.volume],
+        [
+          "pages",
+          range && [range.first, range.last].filter(Boolean).join("--"),
+        ],
+        ["doi", doi(reference)],
+        ["pmid", pubmedId(reference)],
+      ];
+      const type =
+        reference.citationType === "journal article" ? "article" : "misc";
+      const body = fields
+        .filter(([, value]) => value !== null && value !== "")
+        .map(([name, value]) => `  ${name} = {${bibtexValue(String(value))}}`)
+        .join(",\n");
+      return `@${type}{${bibtexKey(reference, used)},\n${body}\n}`;
+    })
+    .join("\n\n");
+}
+
+// RIS as read by Zotero, EndNote and Mendeley: one tag per line, CRLF line
+// endings, every record closed by "ER"
+export function toRIS(references: UniProtReference[]) {
+  return references
+    .map((reference) => {
+      const date = dateParts(reference);
+      const range = pages(reference);
+      const id = pubmedId(reference);
+      const lines: [string, string | number | null][] = [
+        ["TY", reference.citationType === "journal article" ? "JOUR" : "GEN"],
+        ["TI", reference.title],
+        ...reference.authors.map((author): [string, string] => ["AU", author]),
+        ["PY", date?.year ?? null],
+        [
+          "DA",
+          date
+            ? [date.year, date.month, date.day]
+                .map((part) =>
+                  part === null ? "" : String(part).padStart(2, "0")
+                )
+                .join("/") + "/"
+            : null,
+        ],
+        ["JO", reference.journal],
+        ["VL", reference.volume],
+        ["SP", range?.first ?? null],
+        ["EP", range?.last ?? null],
+        ["DO", doi(reference)],
+        ["AN", id && `PMID:${id}`],
+        ["UR", id && `https://pubmed.ncbi.nlm.nih.gov/${id}/`],
+      ];
+      return [
+        ...lines
+          .filter(([, value]) => value !== null && value !== "")
+          .map(
+            ([tag, value]) => `${tag}  - ${String(value).replace(/\s+/g, " ")}`
+          ),
+        "ER  - ",
+      ].join("\r\n");
+    })
+    .join("\r\n\r\n");
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import fixture from "@/fixtures/uniprot/P04637.json";
+import {
+  checkMutation,
+  formatMutation,
+  Mutation,
+  MutationQuery,
+  parseMutationQuery,
+} from "@/lib/mutations";
+
+const R175H: Mutation = { original: "R", position: 175, variant: "H" };
+const sequence = fixture.sequence.value;
+
+describe("parseMutationQuery", () => {
+  it("reads one- and three-letter codes, with or without p.", () => {
+    for (const query of [
+      "TP53 R175H",
+      "TP53:R175H",
+      "TP53 p.R175H",
+      "TP53:p.Arg175His",
+      "tp53 p.(arg175his)",
+    ]) {
+      expect(parseMutationQuery(query)?.mutation).toEqual(R175H);
+    }
+  });
+
+  it("reads stops, synonymous changes and unspecified residues", () => {
+    expect(parseMutationQuery("TP53 R175*")?.mutation.variant).toBe("*");
+    expect(parseMutationQuery("TP53 p.Arg175Ter")?.mutation.variant).toBe("*");
+    expect(parseMutationQuery("TP53 p.(Arg175=)")?.mutation.variant).toBe("R");
+    expect(parseMutationQuery("TP53 p.Arg175Xaa")?.mutation.variant).toBe("X");
+    expect(parseMutationQuery("TP53 X175H")?.mutation.original).toBe("X");
+  });
+
+  it("splits off the isoform of an accession", () => {
+    expect(parseMutationQuery("P04637-2:p.R175H")).toEqual<MutationQuery>({
+      protein: "P04637",
+      isoform: "2",
+      mutation: R175H,
+    });
+    expect(parseMutationQuery("NKX2-1 A100V")).toMatchObject({
+      protein: "NKX2-1",
+      isoform: null,
+    });
+  });
+
+  it("rejects anything that is not a substitution", () => {
+    for (const query of [
+      "TP53",
+      "R175H",
+      "TP53 R0H",
+      "TP53 B175H",
+      "TP53 Arg175Foo",
+      "TP53 c.524G>A",
+    ]) {
+      expect(parseMutationQuery(query)).toBeNull();
+    }
+  });
+});
+
+describe("formatMutation", () => {
+  it("writes one-letter notation", () => {
+    expect(formatMutation({ ...R175H, variant: "*" })).toBe("R175*");
+  });
+});
+
+describe("checkMutation", () => {
+  it("matches the wild-type residue", () => {
+    expect(checkMutation(R175H, sequence)).toEqual({ status: "match" });
+    expect(checkMutation({ ...R175H, original: "X" }, sequence)).toEqual({
+      status: "match",
+    });
+  });
+
+  it("reports a different reference residue", () => {
+    expect(checkMutation({ ...R175H, original: "G" }, sequence)).toEqual({
+      status: "mismatch",
+      actual: "R",
+    });
+  });
+
+  it("reports positions past the end of the sequence", () => {
+    expect(checkMutation({ ...R175H, position: 394 }, sequence)).toEqual({
+      status: "out-of-range",
+      length: 393,
+    });
+    expect(checkMutation({ ...R175H, position: 393 }, sequence)).toMatchObject({
+      status: "mismatch",
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { oneLetterCode } from "@/lib/residue-mapping";
+import type { UniProtFeature } from "@/lib/uniprot";
+import type { VariantRow } from "@/lib/variants";
+
+// An amino-acid substitution in one-letter codes, "*" for a stop and "X"
+// for an unspecified residue
+export interface Mutation {
+  original: string;
+  position: number;
+  variant: string;
+}
+
+export interface MutationQuery {
+  // Gene symbol or accession, as typed and without the isoform suffix
+  protein: string;
+  // "2" for "P04637-2:p.R175H"; the mutation is numbered on that isoform
+  isoform: string | null;
+  mutation: Mutation;
+}
+
+export type MutationCheck =
+  | { status: "match" }
+  | { status: "mismatch"; actual: string }
+  | { status: "out-of-range"; length: number };
+
+// "TP53 R175H", "TP53:p.R175*", "P04637:p.Arg175His", "P04637-2 p.(Arg175=)"
+const MUTATION_QUERY =
+  /^\s*([^\s:]+)\s*[\s:]\s*(?:p\.)?\(?([A-Za-z]{3}|[A-Za-z])(\d+)([A-Za-z]{3}|[A-Za-z*=])\)?\s*$/;
+
+const ISOFORM_ACCESSION =
+  /^([OPQ][0-9][A-Z0-9]{3}[0-9]|[A-NR-Z][0-9](?:[A-Z][A-Z0-9]{2}[0-9]){1,2})-(\d+)$/i;
+
+const AMINO_ACIDS = "ACDEFGHIKLMNPQRSTVWYUOX";
+
+// One-letter code for HGVS "Arg"/"R" style amino acids, "*" for stops
+function aminoAcid(code: string) {
+  if (code === "*") return "*";
+  const upper = code.toUpperCase();
+  if (code.length === 1) return AMINO_ACIDS.includes(upper) ? upper : null;
+  if (upper === "TER") return "*";
+  if (upper === "XAA") return "X";
+  return oneLetterCode(upper);
+}
+
+export function parseMutationQuery(input: string): MutationQuery | null {
+  const match = input.match(MUTATION_QUERY);
+  if (!match) return null;
+  const [, name, from, position, to] = match;
+  // Only accessions have isoforms; "NKX2-1" is a gene symbol
+  const accession = name.match(ISOFORM_ACCESSION);
+  const [protein, isoform] = accession
+    ? [accession[1], accession[2]]
+    : [name, null];
+  const original = aminoAcid(from);
+  const variant = to === "=" ? original : aminoAcid(to);
+  if (!original || !variant || Number(position) < 1) return null;
+  return {
+    protein,
+    isoform,
+    mutation: { original, position: Number(position), variant },
+  };
+}
+
+export function formatMutation({ original, position, variant }: Mutation) {
+  return `${original}${position}${variant}`;
+}
+
+// Compares the wild-type residue with the entry's sequence, that of the
+// isoform for isoform entries. An unspecified residue ("Xaa175His") matches
+// whatever is there.
+export function checkMutation(
+  { original, position }: Mutation,
+  sequence: string
+): MutationCheck {
+  if (position > sequence.length) {
+    return { status: "out-of-range", length: sequence.length };
+  }
+  const actual = sequence[position - 1];
+  return actual === original || original === "X"
+    ? { status: "match" }
+    : { status: "mismatch", actual };
+}
+
+// Annotations covering the position; variants are listed separately
+export function featuresAt(features: UniProtFeature[], position: number) {
+  return features.filter(
+    (feature) =>
+      feature.type !== "Natural variant" &&
+      feature.start <= position &&
+      position <= feature.end
+  );
+}
+
+export function variantsAt(variants: VariantRow[], position: number) {
+  return variants.filter(
+    ({ region }) => region.start <= position && position <= region.end
+  );
+}
@@ -0,0 +1,167 @@
+import type { StructureSummary } from "@/lib/beacons";
+import { ChainGroup, queriedChainIds } from "@/lib/chain-assignment";
+import type { ResidueRegion } from "@/lib/uniprot";
+
+// A residue as numbered in the loaded model (author numbering)
+export interface ModelResidue {
+  chainId: string;
+  seqId: number;
+  // Three-letter component name, e.g. "ARG"
+  compId: string;
+  // Of the residue's first atom; predicted models store confidence here
+  bFactor: number;
+}
+
+// A polymer chain of the loaded model
+export interface ModelChain {
+  // Author chain ID, as used by ModelResidue
+  chainId: string;
+  entityId: string;
+  description: string | null;
+  // UniProt accessions from the file's struct_ref records
+  accessions: string[];
+}
+
+export interface ModelRange {
+  chainIds: string[];
+  start: number;
+  end: number;
+}
+
+// A color for a UniProt region, e.g. from an annotation or a confidence score
+export interface RegionColor {
+  region: ResidueRegion;
+  // CSS hex color, "#rrggbb"
+  color: string;
+}
+
+export interface SequenceColoring {
+  regions: RegionColor[];
+  // Residues outside every region
+  fallback: string;
+}
+
+export interface ResidueMapping {
+  // Chains that belong to the UniProt entry
+  chainIds: string[];
+  // Model residue number minus UniProt position
+  offset: number;
+  toModel(region: ResidueRegion): ModelRange | null;
+  toUniProt(residue: Pick<ModelResidue, "chainId" | "seqId">): number | null;
+}
+
+const ONE_LETTER: Record<string, string> = {
+  ALA: "A",
+  ARG: "R",
+  ASN: "N",
+  ASP: "D",
+  CYS: "C",
+  GLN: "Q",
+  GLU: "E",
+  GLY: "G",
+  HIS: "H",
+  ILE: "I",
+  LEU: "L",
+  LYS: "K",
+  MET: "M",
+  PHE: "F",
+  PRO: "P",
+  SER: "S",
+  THR: "T",
+  TRP: "W",
+  TYR: "Y",
+  VAL: "V",
+  SEC: "U",
+  PYL: "O",
+  // Common modified residues, counted as their parent amino acid
+  MSE: "M",
+  SEP: "S",
+  TPO: "T",
+  PTR: "Y",
+};
+
+export function oneLetterCode(compId: string) {
+  return ONE_LETTER[compId.toUpperCase()] ?? null;
+}
+
+// How many model residues match the UniProt sequence under `offset`
+function identity(
+  residues: ModelResidue[],
+  sequence: string,
+  offset: number,
+  { start, end }: ResidueRegion
+) {
+  return residues.filter((residue) => {
+    const position = residue.seqId - offset;
+    return (
+      position >= start &&
+      position <= end &&
+      oneLetterCode(residue.compId) === sequence[position - 1]
+    );
+  }).length;
+}
+
+// Works out how the model numbers the UniProt residues. Predicted models and
+// most PDB entries use UniProt numbering, but many PDB entries number their
+// construct from 1 or keep a historical offset. 3D Beacons tells us which
+// UniProt range the model covers (uniprot_start/uniprot_end), so the
+// candidate offsets are "none" and "the first modelled residue is
+// uniprot_start"; whichever lines the residues up with the sequence wins.
+export function createResidueMapping(
+  summary: StructureSummary,
+  chains: ChainGroup[],
+  sequence: string,
+  residues: ModelResidue[]
+): ResidueMapping {
+  // Models without any chain mapping (local files, some predictions) are
+  // taken to be the queried protein throughout
+  const queried = queriedChainIds(chains);
+  const chainIds =
+    queried.length > 0
+      ? queried
+      : Array.from(new Set(residues.map((residue) => residue.chainId)));
+  const chainResidues = residues.filter((residue) =>
+    chainIds.includes(residue.chainId)
+  );
+  const range = {
+    start: Math.max(1, summary.uniprotStart),
+    end: Math.min(sequence.length, summary.uniprotEnd),
+  };
+
+  const firstSeqId = chainResidues
+    .filter((residue) => oneLetterCode(residue.compId) !== null)
+    .reduce((first, residue) => Math.min(first, residue.seqId), Infinity);
+  const candidates = Number.isFinite(firstSeqId)
+    ? [0, firstSeqId - range.start]
+    : [0];
+  const offset = candidates.reduce((best, candidate) =>
+    identity(chainResidues, sequence, candidate, range) >
+    identity(chainResidues, sequence, best, range)
+      ? candidate
+      : best
+  );
+
+  return {
+    chainIds,
+    offset,
+
+    toModel({ start, end }) {
+      const clipped = {
+        start: Math.max(start, range.start),
+        end: Math.min(end, range.end),
+      };
+      if (clipped.start > clipped.end) return null;
+      return {
+        chainIds,
+        start: clipped.start + offset,
+        end: clipped.end + offset,
+      };
+    },
+
+    toUniProt({ chainId, seqId }) {
+      if (!chainIds.includes(chainId)) return null;
+      const position = seqId - offset;
+      return position >= range.start && position <= range.end ? position : null;
+    },
+  };
+}
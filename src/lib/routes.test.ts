@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { formatRoute, HOME_ROUTE, parseRoute, Route } from "@/lib/routes";
+
+const parse = (url: string) => {
+  const { pathname, search } = new URL(url, "https://example.org");
+  return parseRoute({ pathname, search });
+};
+
+describe("parseRoute", () => {
+  it("reads the accession and panel state", () => {
+    expect(
+      parse(
+        "/protein/p04637?structure=AF-P04637-F1&residues=100-120&color=domains&complex=text"
+      )
+    ).toEqual<Route>({
+      accession: "P04637",
+      structure: "AF-P04637-F1",
+      residues: { start: 100, end: 120 },
+      colorBy: "domains",
+      complexView: "text",
+    });
+  });
+
+  it("fills in missing parameters", () => {
+    expect(parse("/protein/P04637/")).toEqual<Route>({
+      ...HOME_ROUTE,
+      accession: "P04637",
+    });
+  });
+
+  it("ignores invalid residue ranges and views", () => {
+    for (const residues of ["0", "120-100", "abc", "5-"]) {
+      expect(parse(`/protein/P04637?residues=${residues}`).residues).toBeNull();
+    }
+    expect(parse("/protein/P04637?residues=175").residues).toEqual({
+      start: 175,
+      end: 175,
+    });
+    expect(parse("/protein/P04637?complex=graph").complexView).toBeNull();
+  });
+
+  it("falls back to the search screen for malformed links", () => {
+    expect(parse("/protein/%E0%A4%A")).toEqual(HOME_ROUTE);
+    expect(parse("/proteins/P04637")).toEqual(HOME_ROUTE);
+  });
+});
+
+describe("formatRoute", () => {
+  it("round-trips through parseRoute", () => {
+    const route: Route = {
+      accession: "P04637-2",
+      structure: "1tsr",
+      residues: { start: 175, end: 175 },
+      colorBy: "all",
+      complexView: "text",
+    };
+    const url = formatRoute(route);
+    expect(url).toBe(
+      "/protein/P04637-2?structure=1tsr&residues=175&color=all&complex=text"
+    );
+    expect(parse(url)).toEqual(route);
+  });
+
+  it("leaves out empty panel state", () => {
+    expect(formatRoute({ accession: "P04637", structure: null })).toBe(
+      "/protein/P04637"
+    );
+    expect(formatRoute(HOME_ROUTE)).toBe("/");
+  });
+});
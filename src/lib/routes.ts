@@ -0,0 +1,80 @@
+import type { ResidueRegion } from "@/lib/uniprot";
+
+export type ComplexView = "network" | "text";
+
+// URL scheme: "/" for the search screen and
+// "/protein/<accession>?structure=<model id>&residues=<start>-<end>&color=<mode>&complex=<view>"
+// for a loaded protein. Everything after the accession is optional.
+export interface Route {
+  accession: string | null;
+  structure: string | null;
+  // Panel state, so a shared link opens the same view. Left out when
+  // navigating to another protein; parseRoute always fills them in.
+  residues?: ResidueRegion | null;
+  colorBy?: string | null;
+  complexView?: ComplexView | null;
+}
+
+export const HOME_ROUTE: Route = {
+  accession: null,
+  structure: null,
+  residues: null,
+  colorBy: null,
+  complexView: null,
+};
+
+const PROTEIN_PATH = /^\/protein\/([^/]+)\/?$/;
+const RESIDUES = /^(\d+)(?:-(\d+))?$/;
+const COMPLEX_VIEWS: ComplexView[] = ["network", "text"];
+
+function parseResidues(value: string | null): ResidueRegion | null {
+  const match = value?.match(RESIDUES);
+  if (!match) return null;
+  const start = Number(match[1]);
+  const end = match[2] ? Number(match[2]) : start;
+  return start >= 1 && end >= start ? { start, end } : null;
+}
+
+function formatResidues({ start, end }: ResidueRegion) {
+  return start === end ? `${start}` : `${start}-${end}`;
+}
+
+export function parseRoute({
+  pathname,
+  search,
+}: {
+  pathname: string;
+  search: string;
+}): Route {
+  const match = pathname.match(PROTEIN_PATH);
+  if (!match) return HOME_ROUTE;
+  let accession: string;
+  try {
+    accession = decodeURIComponent(match[1]);
+  } catch {
+    // Malformed escapes such as "%E0%A4%A" in a hand-edited link
+    return HOME_ROUTE;
+  }
+  const params = new URLSearchParams(search);
+  const complexView = params.get("complex");
+  return {
+    accession: accession.toUpperCase(),
+    structure: params.get("structure"),
+    residues: parseResidues(params.get("residues")),
+    colorBy: params.get("color"),
+    complexView: COMPLEX_VIEWS.find((view) => view === complexView) ?? null,
+  };
+}
+
+export function formatRoute(route: Route) {
+  if (!route.accession) return "/";
+  const params = new URLSearchParams();
+  if (route.structure) params.set("structure", route.structure);
+  if (route.residues) params.set("residues", formatResidues(route.residues));
+  if (route.colorBy) params.set("color", route.colorBy);
+  if (route.complexView) params.set("complex", route.complexView);
+  const search = params.toString();
+  return `/protein/${encodeURIComponent(route.accession)}${
+    search ? `?${search}` : ""
+  }`;
+}
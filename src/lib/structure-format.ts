@@ -0,0 +1,115 @@
+import { AppError } from "@/lib/errors";
+
+export type StructureFormat = "mmcif" | "bcif" | "pdb";
+
+export const STRUCTURE_FORMAT_LABELS: Record<StructureFormat, string> = {
+  mmcif: "mmCIF",
+  bcif: "BinaryCIF",
+  pdb: "PDB",
+};
+
+export interface StructureFormatHints {
+  // model_format from the 3D Beacons summary, e.g. "MMCIF", "BCIF" or "PDB"
+  declared?: string | null;
+  // URL or file name
+  name?: string | null;
+}
+
+export interface PreparedStructure {
+  format: StructureFormat;
+  // Text for mmCIF and PDB, bytes for BinaryCIF
+  data: string | Uint8Array;
+}
+
+const DECLARED_FORMATS: Record<string, StructureFormat> = {
+  MMCIF: "mmcif",
+  CIF: "mmcif",
+  BCIF: "bcif",
+  BINARYCIF: "bcif",
+  PDB: "pdb",
+};
+
+const EXTENSIONS: Record<string, StructureFormat> = {
+  cif: "mmcif",
+  mmcif: "mmcif",
+  bcif: "bcif",
+  pdb: "pdb",
+  ent: "pdb",
+};
+
+const PDB_RECORD = /^(HEADER|TITLE|COMPND|REMARK|CRYST1|MODEL|ATOM|HETATM)/m;
+
+function isGzip(bytes: Uint8Array) {
+  return bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+async function gunzip(bytes: Uint8Array) {
+  const stream = new Blob([bytes])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export function formatFromDeclared(declared: string | null | undefined) {
+  return declared ? DECLARED_FORMATS[declared.toUpperCase()] ?? null : null;
+}
+
+export function formatFromName(name: string | null | undefined) {
+  const path = (name ?? "").split(/[?#]/)[0].toLowerCase();
+  const extension = path.replace(/\.gz$/, "").split(".").pop() ?? "";
+  return EXTENSIONS[extension] ?? null;
+}
+
+// Text formats are recognised by their first records. BinaryCIF is a
+// MessagePack map, so anything that isn't valid text is taken for it.
+export function sniffFormat(bytes: Uint8Array): StructureFormat | null {
+  const head = bytes.subarray(0, 4096);
+  let text: string;
+  try {
+    // Streaming mode tolerates a character cut off at the end of `head`
+    text = new TextDecoder("utf-8", { fatal: true }).decode(head, {
+      stream: true,
+    });
+  } catch {
+    const first = bytes[0];
+    return (first & 0xf0) === 0x80 || first === 0xde || first === 0xdf
+      ? "bcif"
+      : null;
+  }
+  const content = text.replace(/^(\s*#.*\n)*\s*/, "");
+  if (content.startsWith("data_")) return "mmcif";
+  if (PDB_RECORD.test(text)) return "pdb";
+  return null;
+}
+
+function unsupportedFormat(described: string) {
+  return new AppError(
+    "unsupported-format",
+    `The structure format ${described} is not supported. ` +
+      "Use mmCIF, BinaryCIF or PDB, optionally gzip-compressed."
+  );
+}
+
+// Decompresses gzip and works out the format: the declared model format
+// wins, then the file extension, then the content itself.
+export async function prepareStructure(
+  buffer: ArrayBuffer,
+  hints: StructureFormatHints = {}
+): Promise<PreparedStructure> {
+  const declared = formatFromDeclared(hints.declared);
+  if (hints.declared && !declared) {
+    throw unsupportedFormat(`"${hints.declared}"`);
+  }
+
+  let bytes = new Uint8Array(buffer);
+  if (isGzip(bytes)) bytes = await gunzip(bytes);
+
+  const format = declared ?? formatFromName(hints.name) ?? sniffFormat(bytes);
+  if (!format) {
+    throw unsupportedFormat(hints.name ? `of ${hints.name}` : "of this file");
+  }
+  return {
+    format,
+    data: format === "bcif" ? bytes : new TextDecoder().decode(bytes),
+  };
+}
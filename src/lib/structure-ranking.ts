@@ -0,0 +1,157 @@
+import type { StructureSummary } from "@/lib/beacons";
+import type { ResidueRegion } from "@/lib/uniprot";
+
+export type StructureSortKey =
+  | "id"
+  | "provider"
+  | "category"
+  | "method"
+  | "resolution"
+  | "coverage"
+  | "created";
+
+export interface StructureSort {
+  key: StructureSortKey;
+  direction: "asc" | "desc";
+}
+
+export interface StructureFilter {
+  text: string;
+  provider: string | null;
+  category: string | null;
+  method: string | null;
+  maxResolution: number | null;
+  minCoverage: number | null;
+  releasedAfter: string | null;
+}
+
+export const EMPTY_STRUCTURE_FILTER: StructureFilter = {
+  text: "",
+  provider: null,
+  category: null,
+  method: null,
+  maxResolution: null,
+  minCoverage: null,
+  releasedAfter: null,
+};
+
+const EXPERIMENTAL = "EXPERIMENTALLY DETERMINED";
+
+// Fraction of the UniProt sequence the model covers. 3D Beacons reports it
+// for most providers; otherwise it follows from the residue range.
+export function sequenceCoverage(summary: StructureSummary, length: number) {
+  if (summary.coverage !== null) return summary.coverage;
+  if (length <= 0) return 0;
+  return (summary.uniprotEnd - summary.uniprotStart + 1) / length;
+}
+
+// Fraction of `region` inside the model's residue range
+export function regionCoverage(
+  summary: StructureSummary,
+  { start, end }: ResidueRegion
+) {
+  const overlap =
+    Math.min(end, summary.uniprotEnd) - Math.max(start, summary.uniprotStart);
+  return Math.max(0, overlap + 1) / (end - start + 1);
+}
+
+// Missing values sort last whichever the direction
+function compareNullable<T>(
+  a: T | null,
+  b: T | null,
+  compare: (a: T, b: T) => number
+) {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  return compare(a, b);
+}
+
+const byNumber = (a: number, b: number) => a - b;
+const byText = (a: string, b: string) => a.localeCompare(b);
+
+export function sortStructures(
+  structures: StructureSummary[],
+  { key, direction }: StructureSort,
+  length: number
+) {
+  const sign = direction === "asc" ? 1 : -1;
+  const value = (summary: StructureSummary) => {
+    switch (key) {
+      case "coverage":
+        return sequenceCoverage(summary, length);
+      case "resolution":
+        return summary.resolution;
+      default:
+        return summary[key];
+    }
+  };
+  return [...structures].sort((a, b) => {
+    const x = value(a);
+    const y = value(b);
+    if (x === null || y === null) return compareNullable(x, y, () => 0);
+    return (
+      sign *
+      (typeof x === "number" && typeof y === "number"
+        ? byNumber(x, y)
+        : byText(String(x), String(y)))
+    );
+  });
+}
+
+export function filterStructures(
+  structures: StructureSummary[],
+  filter: StructureFilter,
+  length: number
+) {
+  const text = filter.text.trim().toLowerCase();
+  return structures.filter(
+    (summary) =>
+      (!text ||
+        [summary.id, summary.provider, summary.method ?? ""].some((field) =>
+          field.toLowerCase().includes(text)
+        )) &&
+      (!filter.provider || summary.provider === filter.provider) &&
+      (!filter.category || summary.category === filter.category) &&
+      (!filter.method || summary.method === filter.method) &&
+      (filter.maxResolution === null ||
+        (summary.resolution !== null &&
+          summary.resolution <= filter.maxResolution)) &&
+      (filter.minCoverage === null ||
+        sequenceCoverage(summary, length) >= filter.minCoverage) &&
+      (!filter.releasedAfter ||
+        (summary.created !== null && summary.created >= filter.releasedAfter))
+  );
+}
+
+// The model to show for a region: the one covering most of it, preferring
+// experimental structures, then better resolution or model confidence, then
+// the most recent release.
+export function bestStructureForRegion(
+  structures: StructureSummary[],
+  region: ResidueRegion
+): StructureSummary | null {
+  const ranked = structures
+    .filter((summary) => regionCoverage(summary, region) > 0)
+    .sort(
+      (a, b) =>
+        regionCoverage(b, region) - regionCoverage(a, region) ||
+        Number(b.category === EXPERIMENTAL) -
+          Number(a.category === EXPERIMENTAL) ||
+        compareNullable(a.resolution, b.resolution, byNumber) ||
+        compareNullable(b.confidenceAvgScore, a.confidenceAvgScore, byNumber) ||
+        compareNullable(b.created, a.created, byText)
+    );
+  return ranked[0] ?? null;
+}
+
+export function distinctValues(
+  structures: StructureSummary[],
+  key: "provider" | "category" | "method"
+) {
+  return Array.from(
+    new Set(
+      structures
+        .map((summary) => summary[key])
+        .filter((value): value is string => value !== null)
+    )
+  ).sort(byText);
+}
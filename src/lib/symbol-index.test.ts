@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { createSymbolIndex, SymbolMatch } from "@/lib/symbol-index";
+
+const index = createSymbolIndex({
+  TP53: "P04637",
+  TP53BP1: "Q12888",
+  TP53I3: "Q53FA7",
+  TP63: "Q9H3D4",
+  TP73: "O15350",
+  BRCA1: "P38398",
+  BRCA2: "P51587",
+  EGFR: "P00533",
+});
+
+const symbols = (matches: SymbolMatch[]) => matches.map(({ symbol }) => symbol);
+
+describe("search", () => {
+  it("ranks the exact match first, then shorter completions", () => {
+    const matches = index.search("tp53");
+    expect(symbols(matches)).toEqual(["TP53", "TP53I3", "TP53BP1"]);
+    expect(matches[0]).toMatchObject({ kind: "exact", score: 0 });
+    expect(matches[1]).toMatchObject({ kind: "prefix", score: 2 });
+  });
+
+  it("puts symbol prefixes before accession prefixes", () => {
+    const index = createSymbolIndex({ P2RX1: "P51575", TP53: "P04637" });
+    expect(index.search("P").map(({ kind }) => kind)).toEqual(["prefix"]);
+    expect(index.search("P5")).toEqual<SymbolMatch[]>([
+      { symbol: "P2RX1", accession: "P51575", score: 54, kind: "accession" },
+    ]);
+  });
+
+  it("respects the limit", () => {
+    expect(index.search("TP", 2)).toHaveLength(2);
+  });
+
+  it("falls back to fuzzy matches once nothing starts with the input", () => {
+    expect(index.search("BRAC1")).toEqual<SymbolMatch[]>([
+      { symbol: "BRCA1", accession: "P38398", score: 101, kind: "fuzzy" },
+      { symbol: "BRCA2", accession: "P51587", score: 102, kind: "fuzzy" },
+    ]);
+    // Prefix hits leave the edit-distance pass out
+    expect(index.search("TP7").map(({ kind }) => kind)).toEqual(["prefix"]);
+  });
+
+  it("ignores blank and single-letter misspellings", () => {
+    expect(index.search("  ")).toEqual([]);
+    expect(index.search("Z")).toEqual([]);
+  });
+});
+
+describe("didYouMean", () => {
+  it("suggests symbols within the edit-distance threshold", () => {
+    // Closest first, ties in alphabetical order
+    expect(symbols(index.didYouMean("TP35"))).toEqual(["TP53", "TP63", "TP73"]);
+    expect(symbols(index.didYouMean("EGRF"))).toEqual(["EGFR"]);
+    // Two edits are allowed for inputs longer than three characters
+    expect(symbols(index.didYouMean("BRKA3"))).toEqual(["BRCA1", "BRCA2"]);
+  });
+
+  it("allows a single edit for short inputs", () => {
+    expect(symbols(index.didYouMean("TP5"))).toEqual(["TP53"]);
+    expect(index.didYouMean("T5")).toEqual([]);
+    expect(index.didYouMean("XYZ")).toEqual([]);
+  });
+
+  it("leaves out the input itself", () => {
+    expect(symbols(index.didYouMean("TP63"))).toEqual(["TP53", "TP73"]);
+  });
+});
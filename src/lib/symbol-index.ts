@@ -0,0 +1,165 @@
+export interface SymbolMatch {
+  symbol: string;
+  accession: string;
+  // 0 for an exact match, growing with prefix length difference or edit distance
+  score: number;
+  kind: "exact" | "prefix" | "accession" | "fuzzy";
+}
+
+export interface SymbolIndex {
+  size: number;
+  lookup(symbol: string): string | undefined;
+  search(query: string, limit?: number): SymbolMatch[];
+  didYouMean(query: string, limit?: number): SymbolMatch[];
+}
+
+interface IndexedSymbol {
+  key: string;
+  symbol: string;
+  accession: string;
+}
+
+// First position in the sorted list whose key is >= prefix.
+function lowerBound(items: IndexedSymbol[], prefix: string) {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (items[mid].key < prefix) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+function prefixMatches(items: IndexedSymbol[], prefix: string, limit: number) {
+  const matches: IndexedSymbol[] = [];
+  for (
+    let i = lowerBound(items, prefix);
+    i < items.length && items[i].key.startsWith(prefix);
+    i++
+  ) {
+    matches.push(items[i]);
+  }
+  // Shorter completions are the likelier intent ("TP5" -> TP53 before TP53BP1)
+  return matches
+    .sort((a, b) => a.key.length - b.key.length || a.key.localeCompare(b.key))
+    .slice(0, limit);
+}
+
+// Optimal string alignment distance, giving up once it exceeds `max`.
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const twoRowsBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previousRow[j] + 1,
+        row[j - 1] + 1,
+        previousRow[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoRowsBack[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+}
+
+export function createSymbolIndex(
+  mapping: Record<string, string>
+): SymbolIndex {
+  const bySymbol = new Map<string, IndexedSymbol>();
+  Object.entries(mapping).forEach(([symbol, accession]) => {
+    bySymbol.set(symbol.toUpperCase(), {
+      key: symbol.toUpperCase(),
+      symbol,
+      accession,
+    });
+  });
+  const symbols = Array.from(bySymbol.values()).sort((a, b) =>
+    a.key < b.key ? -1 : a.key > b.key ? 1 : 0
+  );
+  const accessions = symbols
+    .map((item) => ({ ...item, key: item.accession.toUpperCase() }))
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+  function fuzzy(key: string, limit: number, exclude: Set<string>) {
+    const max = key.length <= 3 ? 1 : 2;
+    const matches: SymbolMatch[] = [];
+    for (const item of symbols) {
+      if (exclude.has(item.key)) continue;
+      const distance = editDistance(key, item.key, max);
+      if (distance <= max) {
+        matches.push({
+          symbol: item.symbol,
+          accession: item.accession,
+          score: 100 + distance,
+          kind: "fuzzy",
+        });
+      }
+    }
+    return matches
+      .sort((a, b) => a.score - b.score || a.symbol.localeCompare(b.symbol))
+      .slice(0, limit);
+  }
+
+  return {
+    size: symbols.length,
+
+    lookup(symbol) {
+      return bySymbol.get(symbol.trim().toUpperCase())?.accession;
+    },
+
+    search(query, limit = 8) {
+      const key = query.trim().toUpperCase();
+      if (!key) return [];
+      const results: SymbolMatch[] = [];
+      const seen = new Set<string>();
+      const add = (match: SymbolMatch) => {
+        if (seen.has(match.symbol.toUpperCase())) return;
+        seen.add(match.symbol.toUpperCase());
+        results.push(match);
+      };
+
+      prefixMatches(symbols, key, limit).forEach((item) =>
+        add({
+          symbol: item.symbol,
+          accession: item.accession,
+          score: item.key.length - key.length,
+          kind: item.key === key ? "exact" : "prefix",
+        })
+      );
+      if (key.length >= 2) {
+        prefixMatches(accessions, key, limit).forEach((item) =>
+          add({
+            symbol: item.symbol,
+            accession: item.accession,
+            score: 50 + item.key.length - key.length,
+            kind: "accession",
+          })
+        );
+      }
+      // The edit-distance pass scans every symbol, too slow to run on each
+      // keystroke; it is only needed once the input stops being a prefix
+      if (results.length === 0 && key.length >= 2) {
+        fuzzy(key, limit, seen).forEach(add);
+      }
+      return results.sort((a, b) => a.score - b.score).slice(0, limit);
+    },
+
+    didYouMean(query, limit = 5) {
+      const key = query.trim().toUpperCase();
+      if (!key) return [];
+      return fuzzy(key, limit, new Set([key]));
+    },
+  };
+}
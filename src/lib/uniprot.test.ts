@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import fixture from "@/fixtures/uniprot/P04637.json";
+import { normalizeUniProtEntry, UniProtSchemaError } from "@/lib/uniprot";
+
+const clone = (): Record<string, unknown> => structuredClone(fixture);
+
+function schemaError(raw: unknown) {
+  try {
+    normalizeUniProtEntry(raw);
+  } catch (error) {
+    if (error instanceof UniProtSchemaError) return error;
+    throw error;
+  }
+  throw new Error("Expected a UniProtSchemaError");
+}
+
+describe("normalizeUniProtEntry", () => {
+  it("normalizes the P04637 fixture", () => {
+    const entry = normalizeUniProtEntry(fixture);
+    expect(entry.accession).toBe("P04637");
+    expect(entry.entryName).toBe("P53_HUMAN");
+    expect(entry.geneName).toBe("TP53");
+    expect(entry.proteinName).toBe("Cellular tumor antigen p53");
+    expect(entry.organism).toBe("Homo sapiens");
+    expect(entry.sequence?.length).toBe(393);
+    expect(entry.sequence?.value).toHaveLength(393);
+    expect(entry.features).toHaveLength(fixture.features.length);
+    expect(entry.references).toHaveLength(fixture.references.length);
+    expect(entry.functionTexts.length).toBeGreaterThan(0);
+    expect(entry.diseases.map(({ acronym }) => acronym)).toContain("LFS");
+  });
+
+  it("fills in optional fields that are missing", () => {
+    const entry = normalizeUniProtEntry({
+      primaryAccession: "P00001",
+      entryType: "UniProtKB reviewed (Swiss-Prot)",
+    });
+    expect(entry).toMatchObject({
+      entryName: null,
+      proteinName: null,
+      geneName: null,
+      organism: null,
+      features: [],
+      references: [],
+      crossReferences: [],
+      sequence: null,
+    });
+  });
+
+  it("rejects a response that is not an object", () => {
+    expect(schemaError([]).path).toBe("entry");
+    expect(schemaError(null).path).toBe("entry");
+  });
+
+  it("reports a missing primaryAccession", () => {
+    const raw = clone();
+    delete raw.primaryAccession;
+    const error = schemaError(raw);
+    expect(error.path).toBe("primaryAccession");
+    expect(error.message).toBe(
+      "Unexpected UniProt response: primaryAccession is not a string"
+    );
+  });
+
+  it("reports the path of fields with the wrong type", () => {
+    const features = clone();
+    features.features = "none";
+    expect(schemaError(features).path).toBe("features");
+
+    const position = clone();
+    (
+      position.features as { location: { start: unknown } }[]
+    )[3].location.start = { value: "12" };
+    expect(schemaError(position).path).toBe("features[3].location.start.value");
+
+    const evidence = clone();
+    (evidence.features as { evidences: unknown }[])[0].evidences = [
+      { evidenceCode: 42 },
+    ];
+    expect(schemaError(evidence).path).toBe(
+      "features[0].evidences[0].evidenceCode"
+    );
+
+    const sequence = clone();
+    (sequence.sequence as { length: unknown }).length = "393";
+    expect(schemaError(sequence).path).toBe("sequence.length");
+  });
+
+  it("places features with one unknown end on the other end", () => {
+    const raw = clone();
+    const feature = (raw.features as { location: unknown }[])[0];
+    feature.location = {
+      start: { modifier: "UNKNOWN" },
+      end: { value: 393, modifier: "EXACT" },
+    };
+    const [first] = normalizeUniProtEntry(raw).features;
+    expect(first).toMatchObject({ start: 393, end: 393 });
+  });
+
+  it("drops features whose location is entirely unknown", () => {
+    const raw = clone();
+    const feature = (raw.features as { location: unknown }[])[0];
+    feature.location = {
+      start: { modifier: "UNKNOWN" },
+      end: { modifier: "UNKNOWN" },
+    };
+    const entry = normalizeUniProtEntry(raw);
+    expect(entry.features).toHaveLength(fixture.features.length - 1);
+  });
+
+  it("reports features without a location", () => {
+    const raw = clone();
+    delete (raw.features as { location?: unknown }[])[2].location;
+    expect(schemaError(raw).path).toBe("features[2].location");
+  });
+});
@@ -0,0 +1,463 @@
+// Typed view of a UniProtKB entry as returned by
+// https://rest.uniprot.org/uniprotkb/{accession}. The raw JSON is only ever
+// touched in this module; the rest of the app reads `UniProtEntry`.
+
+export interface UniProtEvidence {
+  code: string;
+  source: string | null;
+  id: string | null;
+}
+
+export interface UniProtText {
+  value: string;
+  evidences: UniProtEvidence[];
+}
+
+export interface UniProtCitationCrossReference {
+  database: string;
+  id: string;
+}
+
+export interface UniProtReference {
+  number: number;
+  citationType: string;
+  title: string | null;
+  authors: string[];
+  publicationDate: string | null;
+  journal: string | null;
+  volume: string | null;
+  firstPage: string | null;
+  lastPage: string | null;
+  crossReferences: UniProtCitationCrossReference[];
+  // What the entry cites the reference for, e.g. "FUNCTION" or
+  // "X-RAY CRYSTALLOGRAPHY (2.2 ANGSTROMS) OF 94-312"
+  positions: string[];
+  // UniProt's broad topics, e.g. "Function", "Structure", "Interaction"
+  sourceCategories: string[];
+}
+
+// 1-based, inclusive range of positions in the UniProt sequence
+export interface ResidueRegion {
+  start: number;
+  end: number;
+}
+
+export interface UniProtFeature {
+  type: string;
+  start: number;
+  end: number;
+  description: string;
+  featureId: string | null;
+  evidences: UniProtEvidence[];
+  alternativeSequence: {
+    original: string;
+    alternatives: string[];
+  } | null;
+  ligand: string | null;
+}
+
+export interface UniProtCrossReference {
+  database: string;
+  id: string;
+  properties: Record<string, string>;
+}
+
+// A binary interaction from the INTERACTION comment (IntAct data)
+export interface UniProtInteraction {
+  // The partner; the entry's own accession for self-interactions
+  accession: string;
+  geneName: string | null;
+  experiments: number;
+  // Partner from another species, e.g. a viral protein
+  organismDiffer: boolean;
+}
+
+// A disease from a DISEASE comment
+export interface UniProtDisease {
+  // UniProt disease accession, e.g. "DI-01911"
+  id: string;
+  name: string;
+  // Used in variant descriptions, e.g. "in LFS"
+  acronym: string | null;
+  description: string | null;
+  // OMIM phenotype entry
+  mim: string | null;
+  evidences: UniProtEvidence[];
+}
+
+export interface UniProtSequence {
+  value: string;
+  length: number;
+  molWeight: number | null;
+}
+
+export interface UniProtEntry {
+  accession: string;
+  entryName: string | null;
+  entryType: string;
+  proteinName: string | null;
+  geneName: string | null;
+  organism: string | null;
+  functionTexts: UniProtText[];
+  subunitTexts: UniProtText[];
+  interactions: UniProtInteraction[];
+  diseases: UniProtDisease[];
+  references: UniProtReference[];
+  features: UniProtFeature[];
+  crossReferences: UniProtCrossReference[];
+  sequence: UniProtSequence | null;
+}
+
+export class UniProtSchemaError extends Error {
+  // Where in the response the problem is, e.g. "features[3].location"
+  readonly path: string;
+
+  constructor(path: string, expected: string) {
+    super(`Unexpected UniProt response: ${path} is not ${expected}`);
+    this.name = "UniProtSchemaError";
+    this.path = path;
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function object(value: unknown, path: string): RawObject {
+  if (!isObject(value)) throw new UniProtSchemaError(path, "an object");
+  return value;
+}
+
+function optionalObject(value: unknown, path: string): RawObject | null {
+  return value === undefined || value === null ? null : object(value, path);
+}
+
+function array(value: unknown, path: string): unknown[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new UniProtSchemaError(path, "an array");
+  return value;
+}
+
+function string(value: unknown, path: string): string {
+  if (typeof value !== "string") throw new UniProtSchemaError(path, "a string");
+  return value;
+}
+
+function optionalString(value: unknown, path: string): string | null {
+  return value === undefined || value === null ? null : string(value, path);
+}
+
+function number(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new UniProtSchemaError(path, "a number");
+  }
+  return value;
+}
+
+function normalizeEvidences(value: unknown, path: string): UniProtEvidence[] {
+  return array(value, path).map((raw, i) => {
+    const evidence = object(raw, `${path}[${i}]`);
+    return {
+      code: string(evidence.evidenceCode, `${path}[${i}].evidenceCode`),
+      source: optionalString(evidence.source, `${path}[${i}].source`),
+      id: optionalString(evidence.id, `${path}[${i}].id`),
+    };
+  });
+}
+
+function normalizeTexts(value: unknown, path: string): UniProtText[] {
+  return array(value, path).map((raw, i) => {
+    const text = object(raw, `${path}[${i}]`);
+    return {
+      value: string(text.value, `${path}[${i}].value`),
+      evidences: normalizeEvidences(text.evidences, `${path}[${i}].evidences`),
+    };
+  });
+}
+
+function commentTexts(comments: RawObject[], commentType: string) {
+  return comments
+    .filter((comment) => comment.commentType === commentType)
+    .flatMap((comment, i) =>
+      normalizeTexts(comment.texts, `comments[${commentType}][${i}].texts`)
+    );
+}
+
+function normalizeInteractions(comments: RawObject[]) {
+  return comments
+    .filter((comment) => comment.commentType === "INTERACTION")
+    .flatMap((comment, i) => {
+      const path = `comments[INTERACTION][${i}].interactions`;
+      return array(comment.interactions, path).flatMap((raw, j) => {
+        const interaction = object(raw, `${path}[${j}]`);
+        const partner = object(
+          interaction.interactantTwo,
+          `${path}[${j}].interactantTwo`
+        );
+        // Interactants are occasionally only an IntAct ID, with nothing to
+        // open in the explorer
+        const accession = optionalString(
+          partner.uniProtKBAccession,
+          `${path}[${j}].interactantTwo.uniProtKBAccession`
+        );
+        if (!accession) return [];
+        return [
+          {
+            accession,
+            geneName: optionalString(
+              partner.geneName,
+              `${path}[${j}].interactantTwo.geneName`
+            ),
+            experiments: number(
+              interaction.numberOfExperiments,
+              `${path}[${j}].numberOfExperiments`
+            ),
+            organismDiffer: interaction.organismDiffer === true,
+          },
+        ];
+      });
+    });
+}
+
+function normalizeDiseases(comments: RawObject[]): UniProtDisease[] {
+  return comments
+    .filter((comment) => comment.commentType === "DISEASE")
+    .flatMap((comment, i) => {
+      const path = `comments[DISEASE][${i}].disease`;
+      // Comments about unnamed disease associations only carry a note
+      const disease = optionalObject(comment.disease, path);
+      if (!disease) return [];
+      const crossRef = optionalObject(
+        disease.diseaseCrossReference,
+        `${path}.diseaseCrossReference`
+      );
+      return [
+        {
+          id: string(disease.diseaseAccession, `${path}.diseaseAccession`),
+          name: string(disease.diseaseId, `${path}.diseaseId`),
+          acronym: optionalString(disease.acronym, `${path}.acronym`),
+          description: optionalString(
+            disease.description,
+            `${path}.description`
+          ),
+          mim:
+            crossRef?.database === "MIM"
+              ? string(crossRef.id, `${path}.diseaseCrossReference.id`)
+              : null,
+          evidences: normalizeEvidences(disease.evidences, `${path}.evidences`),
+        },
+      ];
+    });
+}
+
+function normalizeReference(raw: unknown, path: string): UniProtReference {
+  const reference = object(raw, path);
+  const citation = object(reference.citation, `${path}.citation`);
+  return {
+    number: number(reference.referenceNumber, `${path}.referenceNumber`),
+    citationType: string(
+      citation.citationType,
+      `${path}.citation.citationType`
+    ),
+    title: optionalString(citation.title, `${path}.citation.title`),
+    authors: array(citation.authors, `${path}.citation.authors`).map(
+      (author, i) => string(author, `${path}.citation.authors[${i}]`)
+    ),
+    publicationDate: optionalString(
+      citation.publicationDate,
+      `${path}.citation.publicationDate`
+    ),
+    journal: optionalString(citation.journal, `${path}.citation.journal`),
+    volume: optionalString(citation.volume, `${path}.citation.volume`),
+    firstPage: optionalString(citation.firstPage, `${path}.citation.firstPage`),
+    lastPage: optionalString(citation.lastPage, `${path}.citation.lastPage`),
+    crossReferences: array(
+      citation.citationCrossReferences,
+      `${path}.citation.citationCrossReferences`
+    ).map((rawCrossRef, i) => {
+      const crossRefPath = `${path}.citation.citationCrossReferences[${i}]`;
+      const crossRef = object(rawCrossRef, crossRefPath);
+      return {
+        database: string(crossRef.database, `${crossRefPath}.database`),
+        id: string(crossRef.id, `${crossRefPath}.id`),
+      };
+    }),
+    positions: array(
+      reference.referencePositions,
+      `${path}.referencePositions`
+    ).map((position, i) =>
+      string(position, `${path}.referencePositions[${i}]`)
+    ),
+    sourceCategories: array(
+      reference.sourceCategories,
+      `${path}.sourceCategories`
+    ).map((category, i) => string(category, `${path}.sourceCategories[${i}]`)),
+  };
+}
+
+function normalizeFeature(raw: unknown, path: string): UniProtFeature | null {
+  const feature = object(raw, path);
+  const location = object(feature.location, `${path}.location`);
+  const start = object(location.start, `${path}.location.start`);
+  const end = object(location.end, `${path}.location.end`);
+  // Positions with an "UNKNOWN" modifier come without a value; fall back
+  // to the other end so the feature still has a usable range, and drop
+  // features that cannot be placed on the sequence at all.
+  if (start.value == null && end.value == null) return null;
+  const alternativeSequence = optionalObject(
+    feature.alternativeSequence,
+    `${path}.alternativeSequence`
+  );
+  const ligand = optionalObject(feature.ligand, `${path}.ligand`);
+  return {
+    type: string(feature.type, `${path}.type`),
+    start: number(start.value ?? end.value, `${path}.location.start.value`),
+    end: number(end.value ?? start.value, `${path}.location.end.value`),
+    description:
+      optionalString(feature.description, `${path}.description`) ?? "",
+    featureId: optionalString(feature.featureId, `${path}.featureId`),
+    evidences: normalizeEvidences(feature.evidences, `${path}.evidences`),
+    alternativeSequence: alternativeSequence
+      ? {
+          original:
+            optionalString(
+              alternativeSequence.originalSequence,
+              `${path}.alternativeSequence.originalSequence`
+            ) ?? "",
+          alternatives: array(
+            alternativeSequence.alternativeSequences,
+            `${path}.alternativeSequence.alternativeSequences`
+          ).map((alternative, i) =>
+            string(
+              alternative,
+              `${path}.alternativeSequence.alternativeSequences[${i}]`
+            )
+          ),
+        }
+      : null,
+    ligand: ligand ? string(ligand.name, `${path}.ligand.name`) : null,
+  };
+}
+
+function normalizeCrossReference(
+  raw: unknown,
+  path: string
+): UniProtCrossReference {
+  const crossRef = object(raw, path);
+  const properties: Record<string, string> = {};
+  array(crossRef.properties, `${path}.properties`).forEach((rawProperty, i) => {
+    const property = object(rawProperty, `${path}.properties[${i}]`);
+    properties[string(property.key, `${path}.properties[${i}].key`)] = string(
+      property.value,
+      `${path}.properties[${i}].value`
+    );
+  });
+  return {
+    database: string(crossRef.database, `${path}.database`),
+    id: string(crossRef.id, `${path}.id`),
+    properties,
+  };
+}
+
+function normalizeSequence(raw: unknown): UniProtSequence | null {
+  const sequence = optionalObject(raw, "sequence");
+  if (!sequence) return null;
+  const value = string(sequence.value, "sequence.value");
+  return {
+    value,
+    length:
+      sequence.length === undefined
+        ? value.length
+        : number(sequence.length, "sequence.length"),
+    molWeight:
+      sequence.molWeight === undefined
+        ? null
+        : number(sequence.molWeight, "sequence.molWeight"),
+  };
+}
+
+export function normalizeUniProtEntry(raw: unknown): UniProtEntry {
+  const entry = object(raw, "entry");
+  const description = optionalObject(
+    entry.proteinDescription,
+    "proteinDescription"
+  );
+  const recommendedName = optionalObject(
+    description?.recommendedName,
+    "proteinDescription.recommendedName"
+  );
+  const fullName = optionalObject(
+    recommendedName?.fullName,
+    "proteinDescription.recommendedName.fullName"
+  );
+  const firstGene = array(entry.genes, "genes")[0];
+  const geneName = isObject(firstGene)
+    ? optionalObject(firstGene.geneName, "genes[0].geneName")
+    : null;
+  const organism = optionalObject(entry.organism, "organism");
+  const comments = array(entry.comments, "comments").map((comment, i) =>
+    object(comment, `comments[${i}]`)
+  );
+
+  return {
+    accession: string(entry.primaryAccession, "primaryAccession"),
+    entryName: optionalString(entry.uniProtkbId, "uniProtkbId"),
+    entryType: string(entry.entryType, "entryType"),
+    proteinName: fullName
+      ? string(fullName.value, "proteinDescription.recommendedName.fullName")
+      : null,
+    geneName: geneName
+      ? string(geneName.value, "genes[0].geneName.value")
+      : null,
+    organism: organism
+      ? optionalString(organism.scientificName, "organism.scientificName")
+      : null,
+    functionTexts: commentTexts(comments, "FUNCTION"),
+    subunitTexts: commentTexts(comments, "SUBUNIT"),
+    interactions: normalizeInteractions(comments),
+    diseases: normalizeDiseases(comments),
+    references: array(entry.references, "references").map((reference, i) =>
+      normalizeReference(reference, `references[${i}]`)
+    ),
+    features: array(entry.features, "features").flatMap((feature, i) => {
+      const normalized = normalizeFeature(feature, `features[${i}]`);
+      return normalized ? [normalized] : [];
+    }),
+    crossReferences: array(
+      entry.uniProtKBCrossReferences,
+      "uniProtKBCrossReferences"
+    ).map((crossRef, i) =>
+      normalizeCrossReference(crossRef, `uniProtKBCrossReferences[${i}]`)
+    ),
+    sequence: normalizeSequence(entry.sequence),
+  };
+}
+
+export interface UniProtInactiveReason {
+  type: string;
+  // Accessions the entry was merged or demerged into
+  replacedBy: string[];
+}
+
+// Deleted, merged and demerged entries come back as "Inactive" stubs
+// without any of the fields normalizeUniProtEntry expects.
+export function normalizeInactiveReason(
+  raw: unknown
+): UniProtInactiveReason | null {
+  const entry = object(raw, "entry");
+  if (entry.entryType !== "Inactive") return null;
+  const reason = optionalObject(entry.inactiveReason, "inactiveReason");
+  return {
+    type: reason
+      ? string(reason.inactiveReasonType, "inactiveReason.inactiveReasonType")
+      : "DELETED",
+    replacedBy: array(
+      reason?.mergeDemergeTo,
+      "inactiveReason.mergeDemergeTo"
+    ).map((accession, i) =>
+      string(accession, `inactiveReason.mergeDemergeTo[${i}]`)
+    ),
+  };
+}
@@ -0,0 +1,118 @@
+import { describeVariant } from "@/lib/feature-tracks";
+import type {
+  ResidueRegion,
+  UniProtDisease,
+  UniProtFeature,
+} from "@/lib/uniprot";
+
+export type VariantConsequence =
+  | "missense"
+  | "nonsense"
+  | "deletion"
+  | "insertion"
+  | "other";
+
+export const VARIANT_CONSEQUENCES: {
+  value: VariantConsequence;
+  label: string;
+}[] = [
+  { value: "missense", label: "Missense" },
+  { value: "nonsense", label: "Stop gained" },
+  { value: "deletion", label: "Deletion" },
+  { value: "insertion", label: "Insertion" },
+  { value: "other", label: "Other" },
+];
+
+// A natural variant with the diseases its description names
+export interface VariantRow {
+  // Unique within the entry: the feature ID where UniProt assigns one
+  key: string;
+  feature: UniProtFeature;
+  region: ResidueRegion;
+  // "R175H", see describeVariant
+  change: string;
+  consequence: VariantConsequence;
+  diseases: UniProtDisease[];
+}
+
+export interface VariantFilter {
+  // A disease ID, or "none" for variants without a disease
+  disease: string | null;
+  consequence: VariantConsequence | null;
+}
+
+export const EMPTY_VARIANT_FILTER: VariantFilter = {
+  disease: null,
+  consequence: null,
+};
+
+export function variantConsequence(
+  feature: UniProtFeature
+): VariantConsequence {
+  const change = feature.alternativeSequence;
+  if (!change) return "other";
+  if (change.alternatives.length === 0) return "deletion";
+  if (change.alternatives.some((alternative) => alternative.includes("*")))
+    return "nonsense";
+  if (
+    change.original.length === 1 &&
+    change.alternatives.every((alternative) => alternative.length === 1)
+  )
+    return "missense";
+  if (change.alternatives.every((alt) => alt.length > change.original.length))
+    return "insertion";
+  if (change.alternatives.every((alt) => alt.length < change.original.length))
+    return "deletion";
+  return "other";
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// UniProt names diseases by acronym in the variant description, as in
+// "in LFS; germline mutation and in sporadic cancers; somatic mutation"
+function variantDiseases(feature: UniProtFeature, diseases: UniProtDisease[]) {
+  const clauses = feature.description
+    .split(";")
+    .map((clause) => clause.trim())
+    .filter((clause) => clause.startsWith("in "));
+  return diseases.filter(
+    ({ acronym }) =>
+      acronym !== null &&
+      clauses.some((clause) =>
+        new RegExp(`\\b${escapeRegExp(acronym)}\\b`).test(clause)
+      )
+  );
+}
+
+export function variantRows(
+  features: UniProtFeature[],
+  diseases: UniProtDisease[]
+): VariantRow[] {
+  return features
+    .filter((feature) => feature.type === "Natural variant")
+    .map((feature, i) => ({
+      key: feature.featureId ?? `variant-${i}`,
+      feature,
+      region: { start: feature.start, end: feature.end },
+      change: describeVariant(feature) ?? "",
+      consequence: variantConsequence(feature),
+      diseases: variantDiseases(feature, diseases),
+    }))
+    .sort((a, b) => a.region.start - b.region.start);
+}
+
+export function filterVariants(variants: VariantRow[], filter: VariantFilter) {
+  return variants.filter(
+    (variant) =>
+      (!filter.disease ||
+        (filter.disease === "none"
+          ? variant.diseases.length === 0
+          : variant.diseases.some(({ id }) => id === filter.disease))) &&
+      (!filter.consequence || variant.consequence === filter.consequence)
+  );
+}
+
+export function omimUrl(mim: string) {
+  return `https://omim.org/entry/${mim}`;
+}
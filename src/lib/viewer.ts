@@ -0,0 +1,789 @@
+import { MmcifFormat } from "molstar/lib/mol-model-formats/structure/mmcif";
+import type { Loci } from "molstar/lib/mol-model/loci";
+import {
+  Bond,
+  Structure,
+  StructureElement,
+  StructureProperties,
+  StructureSelection,
+  Unit,
+} from "molstar/lib/mol-model/structure";
+import { createPluginUI } from "molstar/lib/mol-plugin-ui";
+import type { StaticStructureComponentType } from "molstar/lib/mol-plugin-state/helpers/structure-component";
+import {
+  clearStructureTransparency,
+  setStructureTransparency,
+} from "molstar/lib/mol-plugin-state/helpers/structure-transparency";
+import {
+  createStructureRepresentationParams,
+  StructureRepresentationBuiltInProps,
+} from "molstar/lib/mol-plugin-state/helpers/structure-representation-params";
+import type { PluginStateObject } from "molstar/lib/mol-plugin-state/objects";
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import { renderReact18 } from "molstar/lib/mol-plugin-ui/react18";
+import {
+  DefaultPluginUISpec,
+  PluginUISpec,
+} from "molstar/lib/mol-plugin-ui/spec";
+import { PluginConfig } from "molstar/lib/mol-plugin/config";
+import { MolScriptBuilder as MS } from "molstar/lib/mol-script/language/builder";
+import type { Expression } from "molstar/lib/mol-script/language/expression";
+import { Script } from "molstar/lib/mol-script/script";
+import type { StateObjectSelector } from "molstar/lib/mol-state";
+import type { ColorTheme } from "molstar/lib/mol-theme/color";
+import { ColorThemeCategory } from "molstar/lib/mol-theme/color/categories";
+import { Color } from "molstar/lib/mol-util/color";
+import { ParamDefinition as PD } from "molstar/lib/mol-util/param-definition";
+import { AppError } from "@/lib/errors";
+import type {
+  ModelChain,
+  ModelRange,
+  ModelResidue,
+} from "@/lib/residue-mapping";
+import {
+  prepareStructure,
+  STRUCTURE_FORMAT_LABELS,
+} from "@/lib/structure-format";
+
+const VIEWER_SPEC: PluginUISpec = {
+  ...DefaultPluginUISpec(),
+  config: [
+    [PluginConfig.VolumeStreaming.Enabled, false],
+    [PluginConfig.Viewport.ShowControls, false],
+    [PluginConfig.Viewport.ShowSelectionMode, false],
+  ],
+  layout: {
+    initial: {
+      showControls: false,
+    },
+  },
+  components: {
+    hideTaskOverlay: true,
+  },
+};
+
+export interface StructureFile {
+  data: ArrayBuffer;
+  label: string;
+  // Declared model format, see prepareStructure
+  format?: string | null;
+}
+
+// Colors for model residues; later ranges win where they overlap
+export interface ResidueColoring {
+  ranges: { range: ModelRange; color: string }[];
+  // Every residue not in a range
+  fallback: string;
+}
+
+export type RepresentationType =
+  | "cartoon"
+  | "molecular-surface"
+  | "ball-and-stick"
+  | "spacefill";
+
+export type ColorScheme =
+  | "chain-id"
+  | "sequence-id"
+  | "secondary-structure"
+  | "element-symbol"
+  | "hydrophobicity";
+
+export interface ViewerDisplay {
+  representation: RepresentationType;
+  ligands: boolean;
+  water: boolean;
+  hydrogens: boolean;
+  // Colors the polymer unless a residue coloring is set
+  colorScheme: ColorScheme;
+  spin: boolean;
+}
+
+export const DEFAULT_DISPLAY: ViewerDisplay = {
+  representation: "cartoon",
+  ligands: true,
+  water: false,
+  hydrogens: false,
+  colorScheme: "chain-id",
+  spin: false,
+};
+
+// A non-polymer residue: ligand, ion, cofactor or sugar
+export interface ModelLigand extends ModelResidue {
+  // Chemical component name, e.g. "ZINC ION"
+  name: string | null;
+}
+
+export interface NearbyResidue extends ModelResidue {
+  // Shortest atom-atom distance to the ligand, in Å
+  distance: number;
+}
+
+export type ResidueListener = (residue: ModelResidue | null) => void;
+
+export interface ViewerController {
+  readonly plugin: PluginUIContext;
+  // Replaces whatever is loaded. Resolves to false if a later load() or
+  // clear() superseded this one before it finished.
+  load(file: StructureFile): Promise<boolean>;
+  clear(): Promise<void>;
+  // Zooms to the residues, or back to the whole structure without a range
+  focus(range?: ModelRange): void;
+  // Selects and focuses the residues; null clears the selection
+  select(range: ModelRange | null): void;
+  highlight(range: ModelRange | null): void;
+  // Paints the polymer residues over the color scheme; null restores it
+  colorResidues(coloring: ResidueColoring | null): Promise<void>;
+  // Kept across load() calls, so every structure is shown the same way
+  setDisplay(display: ViewerDisplay): Promise<void>;
+  // Polymer residues of the loaded model
+  residues(): ModelResidue[];
+  // Polymer chains of the loaded model, symmetry copies once
+  chains(): ModelChain[];
+  // Shows the residues as red ball-and-stick over the polymer, e.g. for
+  // variants; an empty list removes the marks. Leaves the camera alone, which
+  // follows the selection. Cleared by load().
+  markResidues(ranges: ModelRange[]): Promise<void>;
+  // Fades every polymer chain not in `chainIds`; null shows all of them
+  // alike again. Cleared by load().
+  emphasizeChains(chainIds: string[] | null): Promise<void>;
+  // Non-polymer components of the loaded model, without water
+  ligands(): ModelLigand[];
+  // Selects the ligand and zooms to it
+  focusLigand(ligand: ModelLigand): void;
+  // Polymer residues within `radius` Å of the ligand, closest first
+  residuesNear(ligand: ModelLigand, radius: number): NearbyResidue[];
+  // Residue under the pointer or clicked in the canvas; the returned
+  // function unsubscribes
+  onResidueHover(listener: ResidueListener): () => void;
+  onResidueClick(listener: ResidueListener): () => void;
+  // PNG of the current view as a data URI
+  snapshot(): Promise<string>;
+  dispose(): void;
+}
+
+function ligandQuery({ chainId, seqId, compId }: ModelLigand) {
+  return MS.struct.generator.atomGroups({
+    "chain-test": MS.core.rel.eq([
+      MS.struct.atomProperty.macromolecular.auth_asym_id(),
+      chainId,
+    ]),
+    "residue-test": MS.core.logic.and([
+      MS.core.rel.eq([
+        MS.struct.atomProperty.macromolecular.auth_seq_id(),
+        seqId,
+      ]),
+      MS.core.rel.eq([
+        MS.struct.atomProperty.macromolecular.label_comp_id(),
+        compId,
+      ]),
+    ]),
+  });
+}
+
+// Polymer residues with an atom within `radius` Å of the ligand
+function surroundingsQuery(ligand: ModelLigand, radius: number) {
+  return MS.struct.filter.within({
+    0: MS.struct.generator.atomGroups({
+      "entity-test": MS.core.rel.eq([
+        MS.struct.atomProperty.macromolecular.entityType(),
+        "polymer",
+      ]),
+      "group-by": MS.struct.atomProperty.macromolecular.residueKey(),
+    }),
+    target: ligandQuery(ligand),
+    "max-radius": radius,
+  });
+}
+
+function residueQuery({ chainIds, start, end }: ModelRange) {
+  return MS.struct.generator.atomGroups({
+    "chain-test": MS.core.set.has([
+      MS.set(...chainIds),
+      MS.struct.atomProperty.macromolecular.auth_asym_id(),
+    ]),
+    "residue-test": MS.core.rel.inRange([
+      MS.struct.atomProperty.macromolecular.auth_seq_id(),
+      start,
+      end,
+    ]),
+  });
+}
+
+// Polymer atoms outside the given chains
+function otherChainsQuery(chainIds: string[]) {
+  return MS.struct.generator.atomGroups({
+    "entity-test": MS.core.rel.eq([
+      MS.struct.atomProperty.macromolecular.entityType(),
+      "polymer",
+    ]),
+    "chain-test": MS.core.logic.not([
+      MS.core.set.has([
+        MS.set(...chainIds),
+        MS.struct.atomProperty.macromolecular.auth_asym_id(),
+      ]),
+    ]),
+  });
+}
+
+function residueAt(location: StructureElement.Location): ModelResidue {
+  return {
+    chainId: StructureProperties.chain.auth_asym_id(location),
+    seqId: StructureProperties.residue.auth_seq_id(location),
+    compId: StructureProperties.atom.label_comp_id(location),
+    bFactor: StructureProperties.atom.B_iso_or_equiv(location),
+  };
+}
+
+function residueOfLoci(loci: Loci) {
+  if (!StructureElement.Loci.is(loci)) return null;
+  const location = StructureElement.Loci.getFirstLocation(loci);
+  return location ? residueAt(location) : null;
+}
+
+function ligandAt(location: StructureElement.Location): ModelLigand {
+  const residue = residueAt(location);
+  const component = location.unit.model.properties.chemicalComponentMap.get(
+    residue.compId
+  );
+  return { ...residue, name: component?.name || null };
+}
+
+// One entry per residue of the given entity types ("polymer",
+// "non-polymer", "branched", ...)
+function residuesOf<T extends ModelResidue>(
+  structure: Structure,
+  entityTypes: string[],
+  describe: (location: StructureElement.Location) => T
+) {
+  const residues: T[] = [];
+  const seen = new Set<string>();
+  const location = StructureElement.Location.create(structure);
+  for (const unit of structure.units) {
+    if (!Unit.isAtomic(unit)) continue;
+    location.unit = unit;
+    const { index } = unit.model.atomicHierarchy.residueAtomSegments;
+    let previous = -1;
+    for (let i = 0; i < unit.elements.length; i++) {
+      const element = unit.elements[i];
+      if (index[element] === previous) continue;
+      previous = index[element];
+      location.element = element;
+      if (!entityTypes.includes(StructureProperties.entity.type(location)))
+        continue;
+      const residue = describe(location);
+      // Symmetry copies of the same chain share residue numbers
+      const key = `${residue.chainId}:${residue.seqId}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      residues.push(residue);
+    }
+  }
+  return residues;
+}
+
+// UniProt accessions per entity from the file's struct_ref category, which
+// Mol*'s mmCIF schema doesn't cover, so it's read from the raw CIF frame
+function uniprotReferences(structure: Structure) {
+  const references = new Map<string, string[]>();
+  const source = structure.models[0]?.sourceData;
+  if (!source || !MmcifFormat.is(source)) return references;
+  const category = source.data.frame.categories["struct_ref"];
+  const database = category?.getField("db_name");
+  const entity = category?.getField("entity_id");
+  const accession = category?.getField("pdbx_db_accession");
+  if (!category || !database || !entity || !accession) return references;
+  for (let row = 0; row < category.rowCount; row++) {
+    if (database.str(row) !== "UNP") continue;
+    const accessions = references.get(entity.str(row)) ?? [];
+    accessions.push(accession.str(row));
+    references.set(entity.str(row), accessions);
+  }
+  return references;
+}
+
+function chainsOf(structure: Structure) {
+  const references = uniprotReferences(structure);
+  const chains = new Map<string, ModelChain>();
+  const location = StructureElement.Location.create(structure);
+  for (const unit of structure.units) {
+    if (!Unit.isAtomic(unit)) continue;
+    location.unit = unit;
+    location.element = unit.elements[0];
+    if (StructureProperties.entity.type(location) !== "polymer") continue;
+    const chainId = StructureProperties.chain.auth_asym_id(location);
+    if (chains.has(chainId)) continue;
+    const entityId = StructureProperties.chain.label_entity_id(location);
+    chains.set(chainId, {
+      chainId,
+      entityId,
+      description:
+        StructureProperties.entity.pdbx_description(location)[0] || null,
+      accessions: references.get(entityId) ?? [],
+    });
+  }
+  return Array.from(chains.values());
+}
+
+function positionAt(location: StructureElement.Location) {
+  return [
+    StructureProperties.atom.x(location),
+    StructureProperties.atom.y(location),
+    StructureProperties.atom.z(location),
+  ];
+}
+
+const RESIDUE_COLOR_THEME = "residue-coloring";
+// Transparency of de-emphasized chains
+const FADED = 0.75;
+// Marked residues, in the variant color of the annotation categories
+const MARK_COLOR = Color(0xf43f5e);
+
+const residueKey = (chainId: string, seqId: number) => `${chainId}:${seqId}`;
+const toColor = (hex: string) => Color(parseInt(hex.slice(1), 16));
+
+interface ResidueColors {
+  colors: Map<string, Color>;
+  fallback: Color;
+}
+
+const NO_COLORS: ResidueColors = { colors: new Map(), fallback: Color(0) };
+
+function residueColors(ranges: ResidueColoring["ranges"]) {
+  const colors = new Map<string, Color>();
+  for (const { range, color } of ranges) {
+    for (const chainId of range.chainIds) {
+      for (let seqId = range.start; seqId <= range.end; seqId++) {
+        colors.set(residueKey(chainId, seqId), toColor(color));
+      }
+    }
+  }
+  return colors;
+}
+
+// The structure is shown as separate parts, each made of Mol* components
+// with one representation apiece
+type DisplayPart = "polymer" | "ligands" | "water";
+
+const PART_COMPONENTS: Record<DisplayPart, StaticStructureComponentType[]> = {
+  polymer: ["polymer"],
+  ligands: ["ligand", "ion", "branched"],
+  water: ["water"],
+};
+
+interface ShownPart {
+  components: StateObjectSelector[];
+  representations: StateObjectSelector[];
+}
+
+// A color theme painting residues from a lookup that the controller swaps
+// out. Mol* only rebuilds a theme when its params change, so every new
+// coloring bumps `revision`.
+function residueColorTheme(
+  current: () => ResidueColors
+): ColorTheme.Provider<{ revision: PD.Numeric }> {
+  const params = { revision: PD.Numeric(0, {}, { isHidden: true }) };
+  function factory(
+    _: unknown,
+    props: PD.Values<typeof params>
+  ): ColorTheme<typeof params> {
+    const { colors, fallback } = current();
+    const location = StructureElement.Location.create();
+    const colorAt = (
+      unit: Unit,
+      element: StructureElement.Location["element"]
+    ) => {
+      location.unit = unit;
+      location.element = element;
+      return (
+        colors.get(
+          residueKey(
+            StructureProperties.chain.auth_asym_id(location),
+            StructureProperties.residue.auth_seq_id(location)
+          )
+        ) ?? fallback
+      );
+    };
+    return {
+      factory,
+      granularity: "group",
+      color: (target) => {
+        if (StructureElement.Location.is(target))
+          return colorAt(target.unit, target.element);
+        if (Bond.isLocation(target))
+          return colorAt(target.aUnit, target.aUnit.elements[target.aIndex]);
+        return fallback;
+      },
+      props,
+      description: "Colors residues from a per-residue lookup.",
+    };
+  }
+  return {
+    name: RESIDUE_COLOR_THEME,
+    label: "Residue coloring",
+    category: ColorThemeCategory.Residue,
+    factory,
+    getParams: () => params,
+    defaultValues: PD.getDefaultValues(params),
+    isApplicable: (ctx) => !!ctx.structure,
+  };
+}
+
+// Creates the Mol* plugin once; structures are swapped in and out of it
+// rather than recreating the plugin, which keeps the canvas, its settings
+// and the WebGL context alive.
+export async function createViewerController(
+  target: HTMLElement
+): Promise<ViewerController> {
+  const plugin = await createPluginUI({
+    target,
+    spec: VIEWER_SPEC,
+    render: renderReact18,
+  });
+
+  // Operations run one at a time so a clear() can't interleave with the
+  // state transactions of a load() that is still in progress.
+  let queue: Promise<unknown> = Promise.resolve();
+  let generation = 0;
+
+  let display = DEFAULT_DISPLAY;
+  let coloring: ResidueColors | null = null;
+  let emphasis: string[] | null = null;
+  let marks: ModelRange[] = [];
+  let marked: StateObjectSelector | null = null;
+  let revision = 0;
+  let structure: StateObjectSelector<PluginStateObject.Molecule.Structure> | null =
+    null;
+  const parts = new Map<DisplayPart, ShownPart>();
+  plugin.representation.structure.themes.colorThemeRegistry.add(
+    residueColorTheme(() => coloring ?? NO_COLORS)
+  );
+  const enqueue = <T>(operation: () => Promise<T>) => {
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  // Residue colorings and chain emphasis are in the numbering of the
+  // structure they were made for, so they go with it
+  const reset = async () => {
+    structure = null;
+    coloring = null;
+    emphasis = null;
+    marks = [];
+    marked = null;
+    parts.clear();
+    await plugin.clear();
+  };
+
+  const partProps = (
+    part: DisplayPart
+  ): StructureRepresentationBuiltInProps => {
+    const typeParams = { ignoreHydrogens: !display.hydrogens };
+    if (part !== "polymer") {
+      return { type: "ball-and-stick", typeParams, color: "element-symbol" };
+    }
+    if (!coloring) {
+      return {
+        type: display.representation,
+        typeParams,
+        color: display.colorScheme,
+      };
+    }
+    return {
+      type: display.representation,
+      typeParams,
+      // Any registered theme works here, the typings only know built-ins
+      color: RESIDUE_COLOR_THEME as ColorTheme.BuiltIn,
+      colorParams: { revision } as ColorTheme.BuiltInParams<ColorTheme.BuiltIn>,
+    };
+  };
+
+  // Brings the loaded structure in line with `display` and `coloring`.
+  // Parts already shown are updated in place rather than rebuilt, which
+  // keeps the camera where it is.
+  const render = async () => {
+    const target = structure;
+    if (!target) return;
+    await plugin.dataTransaction(async () => {
+      for (const part of Object.keys(PART_COMPONENTS) as DisplayPart[]) {
+        const shown = parts.get(part);
+        if (part !== "polymer" && !display[part]) {
+          if (!shown) continue;
+          const update = plugin.build();
+          shown.components.forEach((component) => update.delete(component));
+          await update.commit();
+          parts.delete(part);
+          continue;
+        }
+        const props = partProps(part);
+        if (shown) {
+          const update = plugin.build();
+          for (const representation of shown.representations) {
+            update
+              .to(representation)
+              .update(
+                createStructureRepresentationParams(plugin, target.data, props)
+              );
+          }
+          await update.commit();
+          continue;
+        }
+        const created: ShownPart = { components: [], representations: [] };
+        for (const type of PART_COMPONENTS[part]) {
+          const component =
+            await plugin.builders.structure.tryCreateComponentStatic(
+              target,
+              type
+            );
+          if (!component) continue;
+          created.components.push(component);
+          created.representations.push(
+            await plugin.builders.structure.representation.addRepresentation(
+              component,
+              props
+            )
+          );
+        }
+        parts.set(part, created);
+      }
+    });
+  };
+
+  // Transparency layers sit under the representations, so they survive
+  // display updates and only need redoing when the emphasis changes
+  const applyEmphasis = async () => {
+    const components =
+      plugin.managers.structure.hierarchy.current.structures[0]?.components ??
+      [];
+    await clearStructureTransparency(plugin, components);
+    const chainIds = emphasis;
+    if (!chainIds) return;
+    await setStructureTransparency(plugin, components, FADED, async (root) =>
+      StructureSelection.toLociWithSourceUnits(
+        Script.getStructureSelection(otherChainsQuery(chainIds), root)
+      )
+    );
+  };
+
+  const applyMarks = async () => {
+    const target = structure;
+    if (!target) return;
+    await plugin.dataTransaction(async () => {
+      if (marked) {
+        await plugin.build().delete(marked).commit();
+        marked = null;
+      }
+      if (marks.length === 0) return;
+      const component =
+        await plugin.builders.structure.tryCreateComponentFromExpression(
+          target,
+          MS.struct.combinator.merge(marks.map(residueQuery)),
+          "marked-residues",
+          { label: "Marked residues" }
+        );
+      if (!component) return;
+      marked = component;
+      await plugin.builders.structure.representation.addRepresentation(
+        component,
+        {
+          type: "ball-and-stick",
+          color: "uniform",
+          colorParams: { value: MARK_COLOR },
+        }
+      );
+    });
+  };
+
+  const currentStructure = () =>
+    plugin.managers.structure.hierarchy.current.structures[0]?.cell.obj?.data;
+  const lociOf = (query: Expression) => {
+    const structure = currentStructure();
+    if (!structure) return null;
+    const loci = StructureSelection.toLociWithSourceUnits(
+      Script.getStructureSelection(query, structure)
+    );
+    return StructureElement.Loci.isEmpty(loci) ? null : loci;
+  };
+
+  return {
+    plugin,
+
+    load({ data, label, format }) {
+      const id = ++generation;
+      return enqueue(async () => {
+        if (id !== generation) return false;
+        const prepared = await prepareStructure(data, {
+          declared: format,
+          name: label,
+        });
+        if (id !== generation) return false;
+        await reset();
+        try {
+          const raw = await plugin.builders.data.rawData(
+            { data: prepared.data, label },
+            { state: { isGhost: true } }
+          );
+          // BinaryCIF goes through the same CIF parser as text mmCIF
+          const trajectory = await plugin.builders.structure.parseTrajectory(
+            raw,
+            prepared.format === "pdb" ? "pdb" : "mmcif"
+          );
+          const model = await plugin.builders.structure.createModel(trajectory);
+          structure = await plugin.builders.structure.createStructure(model);
+          await render();
+        } catch (error) {
+          await reset();
+          throw new AppError(
+            "malformed-response",
+            `${label} could not be read as ${
+              STRUCTURE_FORMAT_LABELS[prepared.format]
+            }`,
+            { cause: error }
+          );
+        }
+        return true;
+      });
+    },
+
+    clear() {
+      generation++;
+      return enqueue(reset);
+    },
+
+    focus(range) {
+      const loci = range && lociOf(residueQuery(range));
+      if (loci) plugin.managers.camera.focusLoci(loci);
+      else plugin.managers.camera.reset();
+    },
+
+    select(range) {
+      const loci = range && lociOf(residueQuery(range));
+      if (!loci) {
+        plugin.managers.interactivity.lociSelects.deselectAll();
+        return;
+      }
+      plugin.managers.interactivity.lociSelects.selectOnly({ loci });
+      plugin.managers.camera.focusLoci(loci);
+    },
+
+    highlight(range) {
+      const loci = range && lociOf(residueQuery(range));
+      if (loci)
+        plugin.managers.interactivity.lociHighlights.highlightOnly({ loci });
+      else plugin.managers.interactivity.lociHighlights.clearHighlights();
+    },
+
+    colorResidues(next) {
+      coloring = next && {
+        colors: residueColors(next.ranges),
+        fallback: toColor(next.fallback),
+      };
+      revision++;
+      return enqueue(render);
+    },
+
+    setDisplay(next) {
+      if (next.spin !== display.spin) {
+        plugin.canvas3d?.setProps({
+          trackball: {
+            animate: next.spin
+              ? { name: "spin", params: { speed: 1 } }
+              : { name: "off", params: {} },
+          },
+        });
+      }
+      display = next;
+      return enqueue(render);
+    },
+
+    residues() {
+      const structure = currentStructure();
+      return structure ? residuesOf(structure, ["polymer"], residueAt) : [];
+    },
+
+    chains() {
+      const structure = currentStructure();
+      return structure ? chainsOf(structure) : [];
+    },
+
+    markResidues(ranges) {
+      marks = ranges;
+      return enqueue(applyMarks);
+    },
+
+    emphasizeChains(chainIds) {
+      emphasis = chainIds;
+      return enqueue(applyEmphasis);
+    },
+
+    ligands() {
+      const structure = currentStructure();
+      return structure
+        ? residuesOf(structure, ["non-polymer", "branched"], ligandAt)
+        : [];
+    },
+
+    focusLigand(ligand) {
+      const loci = lociOf(ligandQuery(ligand));
+      if (!loci) return;
+      plugin.managers.interactivity.lociSelects.selectOnly({ loci });
+      plugin.managers.camera.focusLoci(loci);
+    },
+
+    residuesNear(ligand, radius) {
+      const ligandLoci = lociOf(ligandQuery(ligand));
+      const surroundings = lociOf(surroundingsQuery(ligand, radius));
+      if (!ligandLoci || !surroundings) return [];
+      const ligandAtoms: number[][] = [];
+      StructureElement.Loci.forEachLocation(ligandLoci, (location) =>
+        ligandAtoms.push(positionAt(location))
+      );
+      const nearby = new Map<string, NearbyResidue>();
+      StructureElement.Loci.forEachLocation(surroundings, (location) => {
+        const [x, y, z] = positionAt(location);
+        const distance = Math.sqrt(
+          ligandAtoms.reduce(
+            (min, [lx, ly, lz]) =>
+              Math.min(min, (x - lx) ** 2 + (y - ly) ** 2 + (z - lz) ** 2),
+            Infinity
+          )
+        );
+        const residue = residueAt(location);
+        const key = `${residue.chainId}:${residue.seqId}`;
+        const known = nearby.get(key);
+        if (!known || distance < known.distance) {
+          nearby.set(key, { ...(known ?? residue), distance });
+        }
+      });
+      return Array.from(nearby.values()).sort(
+        (a, b) => a.distance - b.distance
+      );
+    },
+
+    onResidueHover(listener) {
+      const subscription = plugin.behaviors.interaction.hover.subscribe(
+        ({ current }) => listener(residueOfLoci(current.loci))
+      );
+      return () => subscription.unsubscribe();
+    },
+
+    onResidueClick(listener) {
+      const subscription = plugin.behaviors.interaction.click.subscribe(
+        ({ current }) => listener(residueOfLoci(current.loci))
+      );
+      return () => subscription.unsubscribe();
+    },
+
+    async snapshot() {
+      const helper = plugin.helpers.viewportScreenshot;
+      if (!helper) throw new Error("Viewer snapshots are not available");
+      return helper.getImageDataUri();
+    },
+
+    dispose() {
+      generation++;
+      plugin.dispose();
+    },
+  };
+}
@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_SOURCE?: "remote" | "fixtures";
+  readonly VITE_UNIPROT_BASE_URL?: string;
+  readonly VITE_BEACONS_BASE_URL?: string;
+  readonly VITE_STRUCTURE_MIRRORS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+declare module "virtual:identifier-index" {
+  // See serializeIdentifierIndex in src/lib/identifier-records.ts
+  const payload: string;
+  export default payload;
+}
@@ -1,9 +1,16 @@
 import path from "path";
 import react from "@vitejs/plugin-react";
 import { defineConfig } from "vite";
+import { identifierIndexPlugin } from "./plugins/identifier-index";
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    identifierIndexPlugin({
+      source: "data/identifier_mapping.tsv",
+      strict: true,
+    }),
+  ],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),